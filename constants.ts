@@ -0,0 +1,3 @@
+// ISO Principle limits shared by the playlist prompt and the in-app compliance check.
+export const ISO_START_TOLERANCE = 0.1;
+export const ISO_MAX_STEP = 0.2; // Upper bound; longer journeys derive a smaller step from the start–target distance
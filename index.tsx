@@ -1,57 +1,178 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { createRoot } from "react-dom/client";
-import { GoogleGenAI, Schema, Type } from "@google/genai";
+import type { AiSuggestion, AnalysisSource, AnalyzeApiRequest, ApiErrorResponse, AxisInsight, AxisKey, AxisState, CatalogAudioFeatures, CatalogMatch, CatalogTrack, ClientAudioMetrics, FeedbackHistory, GenerateApiResponse, ImportedTrack, JournalEntry, JournalTrendPoint, ModalityContribution, OutcomeExample, PitchContour, PlaceTracksApiRequest, PlaylistRequest, PlaylistResponse, Song, SongFeedback, VoiceMetrics } from "./types";
+import { ISO_MAX_STEP, ISO_START_TOLERANCE } from "./constants";
 
 // --- Types ---
-interface AxisState {
-  energy: number;
-  reality: number;
-  temporal: number;
-  repetition: number;
-  hedonic: number;
-  summary?: string;
+type EngineId = "gemini" | "offline";
+
+interface AnalysisRequest {
+  state: AxisState;
+  journalText?: string;
+  journalEntries?: JournalEntry[];
+  audio?: { blob: Blob; metrics: ClientAudioMetrics | null };
+}
+
+// Both AI operations sit behind this interface so the app can run against
+// Gemini or fully offline. Implementations return validated results.
+interface TherapyEngine {
+  id: EngineId;
+  label: string;
+  analyzeState(request: AnalysisRequest): Promise<AiSuggestion>;
+  generatePlaylist(request: PlaylistRequest): Promise<PlaylistResponse>;
+  // One placement per track, in order; state is null for tracks the engine can't place
+  placeTracks(tracks: ImportedTrack[]): Promise<TrackPlacement[]>;
 }
 
-interface VoiceMetrics {
-  pitch: string;
-  stability: string;
-  speed: string;
+interface TrackPlacement {
+  state: AxisState | null;
+  duration_sec?: number;
   note: string;
 }
 
-interface AiSuggestion {
-  suggested_state: AxisState;
-  reasoning: string;
-  voice_analysis?: VoiceMetrics;
+// Guided mode: how the listener actually felt after a song.
+interface CheckIn {
+  afterSong: number; // Index of the song just heard
+  state: AxisState;
+  at: number;
+}
+
+// The post-session check-in: where the listener ended up after the last song.
+interface JourneyOutcome {
+  state: AxisState;
+  at: number;
+  distanceBefore: number; // From the journey's start state to its target
+  distanceAfter: number; // From the measured state to the target
+}
+
+// The listener's local music library, kept in IndexedDB.
+interface MusicCatalog {
+  fileName: string;
+  importedAt: number;
+  tracks: CatalogTrack[];
 }
 
-interface Song {
+// An imported track left out of the journey, with the reason shown to the user.
+interface DroppedTrack {
   title: string;
   artist: string;
-  target_state: AxisState;
-  therapeutic_note: string;
-  color_hex: string;
-  axis_shifts: AxisState;
+  reason: string;
 }
 
-interface PlaylistResponse {
-  songs: Song[];
-  journey_narrative: string;
-  iso_insight: string;
-  total_shift: AxisState;
+type IsoViolationKind = "START_MISMATCH" | "STEP_TOO_LARGE" | "WRONG_DIRECTION";
+
+interface IsoViolation {
+  songIndex: number;
+  songTitle: string;
+  axis: AxisKey;
+  kind: IsoViolationKind;
+  from: number;
+  to: number;
+  limit: number;
+}
+
+interface IsoReport {
+  compliant: boolean;
+  score: number; // Share of song/axis checks that passed (0..1)
+  violations: IsoViolation[];
+  repaired: boolean;
+  maxStep?: number; // Step limit the journey was checked against; absent on sessions saved before it was configurable
+}
+
+type AiErrorCode = "EMPTY_RESPONSE" | "INVALID_JSON" | "MISSING_FIELD" | "INVALID_VALUE";
+
+class AiResponseError extends Error {
+  constructor(public code: AiErrorCode, public field: string, message: string) {
+    super(message);
+    this.name = "AiResponseError";
+  }
 }
 
+// Raised when the API server can't be reached or rejects a request.
+class ApiRequestError extends Error {
+  constructor(public status: number, message: string, public retryAfterSec?: number) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+// A named end state for the journey; presets or the user's own.
+interface JourneyGoal {
+  id: string;
+  label: string;
+  emoji: string;
+  description: string;
+  target: AxisState;
+}
+
+// How long a journey should be: a number of songs, or a listening time that
+// is turned into a song count.
+type JourneyLength = { mode: "songs"; songs: number } | { mode: "minutes"; minutes: number };
+
 interface GenreOption {
   id: string;
   label: string;
   emoji: string;
 }
 
-type ViewState = "INPUT" | "ANALYZING" | "CONFIRMATION" | "PLAYLIST";
+type ViewState = "INPUT" | "ANALYZING" | "CONFIRMATION" | "PLAYLIST" | "HISTORY" | "DASHBOARD" | "SHARED" | "REPORT";
 type Tab = "SLIDERS" | "VOICE" | "TEXT";
+type InputModality = Tab | "COMBINED"; // COMBINED: voice and journal analysed together
+
+// A completed session as stored in IndexedDB.
+interface SessionRecord {
+  id: string;
+  createdAt: number;
+  modality: InputModality;
+  startState: AxisState; // The user's own settings before any AI suggestion
+  acceptedSuggestion: AiSuggestion | null;
+  finalState: AxisState; // The state the journey was generated from
+  playlist: PlaylistResponse;
+  isoReport: IsoReport | null;
+  goal: JourneyGoal;
+  length?: JourneyLength;
+  genres: string[];
+  excludedGenres: string[];
+  journalText?: string;
+  // Set when the journey was built from an uploaded playlist
+  importedFrom?: string;
+  droppedTracks?: DroppedTrack[];
+  checkIns?: CheckIn[]; // Guided mode, in song order
+  // Every track rated this session, newest first. Kept apart from the playlist
+  // because re-planning replaces the songs the listener turned down.
+  feedback?: FeedbackHistory;
+  outcome?: JourneyOutcome;
+  // Practitioner mode: whose session this was, and the therapist's notes on it
+  clientId?: string;
+  clinicalNotes?: string;
+}
+
+// Practitioner mode: someone a music therapist runs sessions for. New sessions
+// for the client start from these defaults.
+interface ClientProfile {
+  id: string;
+  name: string;
+  genres: string[];
+  excludedGenres: string[];
+  goal: JourneyGoal;
+  createdAt: number;
+}
 
 declare var Chart: any;
 
+const AXES: AxisKey[] = ['energy', 'reality', 'temporal', 'repetition', 'hedonic'];
+
+const ISO_EPSILON = 0.01; // Slack for rounding in model output
+const ISO_DIRECTION_SLACK = 0.05; // Small wobble away from the target is tolerated
+
+const MIN_ISO_STEP = 0.05; // Long journeys with a short distance still move a little per song
+const DEFAULT_SONG_SECONDS = 240; // Used when a song's length is unknown
+const MIN_SONG_SECONDS = 30;
+const MAX_SONG_SECONDS = 1200;
+const SONG_COUNT_RANGE = { min: 3, max: 30 };
+const MINUTES_RANGE = { min: 10, max: 120, step: 5 };
+const HEALTHY_BAND = 0.3; // Values within ±0.3 of centre count as healthy
+
 const HEALTHY_TARGET: AxisState = {
   energy: 0,
   reality: 0.2,
@@ -60,6 +181,15 @@ const HEALTHY_TARGET: AxisState = {
   hedonic: 0.2
 };
 
+const DISCLAIMER = "TherapyTune uses the ISO Principle, an evidence-based approach in music therapy. This is a music discovery tool, not a replacement for professional mental health care.";
+
+const GOAL_PRESETS: JourneyGoal[] = [
+  { id: 'balance', label: 'Find balance', emoji: '⚖️', description: 'A calm, gently positive baseline', target: HEALTHY_TARGET },
+  { id: 'sleep', label: 'Wind down for sleep', emoji: '🌙', description: 'Low energy, soft focus, quiet mind', target: { energy: -0.6, reality: -0.2, temporal: 0, repetition: -0.1, hedonic: 0.1 } },
+  { id: 'workout', label: 'Energize for a workout', emoji: '🏃', description: 'High energy, alert and upbeat', target: { energy: 0.7, reality: 0.3, temporal: 0.1, repetition: 0.2, hedonic: 0.4 } },
+  { id: 'focus', label: 'Focus for deep work', emoji: '🎯', description: 'Steady energy, present and absorbed', target: { energy: 0.2, reality: 0.3, temporal: 0, repetition: 0.3, hedonic: 0 } },
+];
+
 const INITIAL_STATE: AxisState = {
   energy: 0,
   reality: 0,
@@ -103,529 +233,3636 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-// --- Audio Hooks & Logic ---
+const clampAxis = (v: number) => Math.max(-1, Math.min(1, v));
+const roundAxis = (v: number) => Math.round(v * 100) / 100;
 
-const useAudioRecorder = () => {
-  const [isRecording, setIsRecording] = useState(false);
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [metrics, setMetrics] = useState<{rms: number, zcr: number} | null>(null);
-  const [permissionError, setPermissionError] = useState(false);
-  
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  const streamRef = useRef<MediaStream | null>(null);
+const diffStates = (to: AxisState, from: AxisState): AxisState =>
+  AXES.reduce((diff, axis) => ({ ...diff, [axis]: roundAxis(to[axis] - from[axis]) }), {} as AxisState);
 
-  const startRecording = async () => {
-    setPermissionError(false);
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-      
-      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-      const audioCtx = new AudioContext();
-      audioContextRef.current = audioCtx;
-      const source = audioCtx.createMediaStreamSource(stream);
-      const analyser = audioCtx.createAnalyser();
-      analyser.fftSize = 2048;
-      source.connect(analyser);
-      analyserRef.current = analyser;
+// --- AI Response Validation ---
 
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-      chunksRef.current = [];
+// Model output is untrusted: every field is checked, axes are clamped into
+// [-1, 1], colors are normalized to #rrggbb and derived fields are recomputed.
 
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
-      };
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', gray: '#808080', grey: '#808080', silver: '#c0c0c0',
+  red: '#ef4444', crimson: '#dc143c', maroon: '#800000', pink: '#f472b6', magenta: '#ff00ff',
+  purple: '#a78bfa', violet: '#8b5cf6', indigo: '#4f46e5', lavender: '#c4b5fd',
+  blue: '#3b82f6', navy: '#1e3a8a', cyan: '#22d3ee', teal: '#2dd4bf', turquoise: '#40e0d0',
+  green: '#22c55e', lime: '#84cc16', olive: '#808000', yellow: '#facc15', gold: '#fbbf24',
+  orange: '#fb923c', coral: '#ff7f50', brown: '#92400e', amber: '#f59e0b', peach: '#fdba74'
+};
 
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        setAudioBlob(blob);
-        analyzeRecordedAudio(blob);
-      };
+const parseJsonResponse = (text: string | undefined): unknown => {
+  if (!text || !text.trim()) {
+    throw new AiResponseError("EMPTY_RESPONSE", "", "The AI returned an empty response.");
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AiResponseError("INVALID_JSON", "", "The AI response was not valid JSON.");
+  }
+};
 
-      mediaRecorder.start();
-      setIsRecording(true);
-    } catch (err) {
-      console.error("Error accessing microphone:", err);
-      setPermissionError(true);
-    }
-  };
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
-      setIsRecording(false);
-    }
-  };
+const readString = (value: unknown, fallback = ''): string =>
+  typeof value === 'string' ? value.trim() : fallback;
 
-  const analyzeRecordedAudio = async (blob: Blob) => {
-    try {
-      const arrayBuffer = await blob.arrayBuffer();
-      const audioCtx = new AudioContext();
-      const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-      const data = audioBuffer.getChannelData(0);
-      
-      let sumSquares = 0;
-      let zeroCrossings = 0;
-      for (let i = 0; i < data.length; i++) {
-        sumSquares += data[i] * data[i];
-        if (i > 0 && ((data[i] >= 0 && data[i-1] < 0) || (data[i] < 0 && data[i-1] >= 0))) {
-          zeroCrossings++;
-        }
-      }
-      const rms = Math.sqrt(sumSquares / data.length);
-      const zcr = zeroCrossings / data.length;
-      
-      setMetrics({ rms, zcr });
-    } catch (e) {
-      console.error("Client side analysis failed", e);
+const requireString = (value: unknown, field: string): string => {
+  const str = readString(value);
+  if (!str) throw new AiResponseError("MISSING_FIELD", field, `The AI response is missing "${field}".`);
+  return str;
+};
+
+const readAxisValue = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) {
+    throw new AiResponseError("INVALID_VALUE", field, `"${field}" is not a number.`);
+  }
+  return roundAxis(clampAxis(num));
+};
+
+// Missing axes are taken from `fallback`; without a fallback they are rejected.
+const normalizeAxisState = (raw: unknown, field: string, fallback?: AxisState): AxisState => {
+  if (!isRecord(raw)) {
+    if (fallback) return { ...fallback };
+    throw new AiResponseError("MISSING_FIELD", field, `The AI response is missing "${field}".`);
+  }
+  const state = {} as AxisState;
+  AXES.forEach(axis => {
+    const value = readAxisValue(raw[axis], `${field}.${axis}`);
+    if (value === undefined) {
+      if (!fallback) throw new AiResponseError("MISSING_FIELD", `${field}.${axis}`, `The AI response is missing "${field}.${axis}".`);
+      state[axis] = fallback[axis];
+    } else {
+      state[axis] = value;
     }
+  });
+  const summary = readString(raw.summary);
+  if (summary) state.summary = summary;
+  return state;
+};
+
+const hslToHex = (h: number, s: number, l: number) => {
+  const a = (s / 100) * Math.min(l / 100, 1 - l / 100);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = l / 100 - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, '0');
   };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
 
-  return { isRecording, startRecording, stopRecording, audioBlob, analyserRef, metrics, setAudioBlob, permissionError };
+// Calm, low states lean blue/purple; energized, pleasant states lean teal/warm.
+const colorForState = (state: AxisState) => {
+  const hue = Math.round(260 - (state.hedonic + 1) * 50 - (state.energy + 1) * 25) % 360;
+  const lightness = Math.round(55 + state.energy * 10);
+  return hslToHex((hue + 360) % 360, 70, lightness);
 };
 
-// --- Visual Components ---
+const normalizeColor = (raw: unknown, state: AxisState): string => {
+  const value = readString(raw).toLowerCase();
+  const hex = value.match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+    return `#${digits}`;
+  }
+  const rgb = value.match(/^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})/);
+  if (rgb) {
+    return '#' + rgb.slice(1, 4).map(c => Math.min(255, parseInt(c, 10)).toString(16).padStart(2, '0')).join('');
+  }
+  return NAMED_COLORS[value.replace(/[\s_-]/g, '')] ?? colorForState(state);
+};
 
-const LiveWaveform = ({ analyser, isRecording }: { analyser: React.MutableRefObject<AnalyserNode | null>, isRecording: boolean }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+const ZERO_SHIFTS: AxisState = { energy: 0, reality: 0, temporal: 0, repetition: 0, hedonic: 0 };
 
-  useEffect(() => {
-    if (!isRecording || !analyser.current || !canvasRef.current) return;
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+// Keeps one entry per source that was actually sent and rescales the weights
+// to sum to 1, so the breakdown always adds up.
+const normalizeContributions = (raw: unknown, sources: AnalysisSource[]): ModalityContribution[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const seen = new Set<AnalysisSource>();
+  const contributions = raw.filter(isRecord).flatMap((entry, i): ModalityContribution[] => {
+    const source = readString(entry.source).toLowerCase() as AnalysisSource;
+    if (!sources.includes(source) || seen.has(source)) return [];
+    seen.add(source);
+    const weight = typeof entry.weight === 'number' && Number.isFinite(entry.weight) ? Math.max(0, entry.weight) : 0;
+    return [{
+      source,
+      weight,
+      axis_shifts: source === 'sliders' ? { ...ZERO_SHIFTS } : normalizeAxisState(entry.axis_shifts, `contributions[${i}].axis_shifts`, ZERO_SHIFTS),
+      note: readString(entry.note)
+    }];
+  });
+  if (contributions.length === 0) return undefined;
+  const total = contributions.reduce((sum, c) => sum + c.weight, 0);
+  return contributions.map(c => ({ ...c, weight: Math.round((total > 0 ? c.weight / total : 1 / contributions.length) * 100) / 100 }));
+};
 
-    const bufferLength = analyser.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    let animationId: number;
+// Axes without a usable insight are left out rather than given a made-up confidence.
+const normalizeAxisInsights = (raw: unknown): Partial<Record<AxisKey, AxisInsight>> | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const insights: Partial<Record<AxisKey, AxisInsight>> = {};
+  AXES.forEach(axis => {
+    const entry = raw[axis];
+    if (!isRecord(entry) || typeof entry.confidence !== 'number' || !Number.isFinite(entry.confidence)) return;
+    // Some responses use a 0-100 scale.
+    const confidence = entry.confidence > 1 ? entry.confidence / 100 : entry.confidence;
+    insights[axis] = { confidence: Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100, rationale: readString(entry.rationale) };
+  });
+  return Object.keys(insights).length > 0 ? insights : undefined;
+};
 
-    const draw = () => {
-      animationId = requestAnimationFrame(draw);
-      analyser.current!.getByteTimeDomainData(dataArray);
+const validateAiSuggestion = (raw: unknown, fallback: AxisState, sources: AnalysisSource[] = ['sliders']): AiSuggestion => {
+  if (!isRecord(raw)) throw new AiResponseError("INVALID_VALUE", "", "The AI response has an unexpected shape.");
+  const suggestion: AiSuggestion = {
+    suggested_state: normalizeAxisState(raw.suggested_state, "suggested_state", fallback),
+    reasoning: readString(raw.reasoning, "No reasoning was provided.")
+  };
+  if (isRecord(raw.voice_analysis)) {
+    suggestion.voice_analysis = {
+      pitch: readString(raw.voice_analysis.pitch),
+      stability: readString(raw.voice_analysis.stability),
+      speed: readString(raw.voice_analysis.speed),
+      note: readString(raw.voice_analysis.note)
+    };
+  }
+  const axisInsights = normalizeAxisInsights(raw.axis_insights);
+  if (axisInsights) suggestion.axis_insights = axisInsights;
+  const contributions = normalizeContributions(raw.contributions, sources);
+  if (contributions) suggestion.contributions = contributions;
+  return suggestion;
+};
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.lineWidth = 3;
-      // Aurora Gradient for Waveform
-      const gradient = ctx.createLinearGradient(0, 0, canvas.width, 0);
-      gradient.addColorStop(0, '#2DD4BF'); // Teal
-      gradient.addColorStop(0.5, '#A78BFA'); // Purple
-      gradient.addColorStop(1, '#F472B6'); // Pink
-      ctx.strokeStyle = gradient;
+const readDuration = (value: unknown): number =>
+  typeof value === 'number' && value >= MIN_SONG_SECONDS && value <= MAX_SONG_SECONDS ? Math.round(value) : DEFAULT_SONG_SECONDS;
 
-      ctx.beginPath();
-      const sliceWidth = canvas.width / bufferLength;
-      let x = 0;
+// Songs must name a title, artist and target_state; shifts are always
+// recomputed from the coordinates so the summary can never disagree with them.
+const validatePlaylistResponse = (raw: unknown, start: AxisState): PlaylistResponse => {
+  if (!isRecord(raw)) throw new AiResponseError("INVALID_VALUE", "", "The AI response has an unexpected shape.");
+  if (!Array.isArray(raw.songs) || raw.songs.length === 0) {
+    throw new AiResponseError("MISSING_FIELD", "songs", "The AI response did not contain any songs.");
+  }
 
-      for (let i = 0; i < bufferLength; i++) {
-        const v = dataArray[i] / 128.0;
-        const y = v * canvas.height / 2;
-        if (i === 0) ctx.moveTo(x, y);
-        else ctx.lineTo(x, y);
-        x += sliceWidth;
-      }
-      ctx.lineTo(canvas.width, canvas.height / 2);
-      ctx.stroke();
+  let prev = start;
+  const songs = raw.songs.map((rawSong, i): Song => {
+    const field = `songs[${i}]`;
+    if (!isRecord(rawSong)) throw new AiResponseError("INVALID_VALUE", field, `Song ${i + 1} has an unexpected shape.`);
+    const target_state = normalizeAxisState(rawSong.target_state, `${field}.target_state`);
+    const song: Song = {
+      title: requireString(rawSong.title, `${field}.title`),
+      artist: requireString(rawSong.artist, `${field}.artist`),
+      target_state,
+      therapeutic_note: readString(rawSong.therapeutic_note),
+      color_hex: normalizeColor(rawSong.color_hex, target_state),
+      axis_shifts: diffStates(target_state, prev),
+      duration_sec: readDuration(rawSong.duration_sec)
     };
+    prev = target_state;
+    return song;
+  });
 
-    draw();
-    return () => cancelAnimationFrame(animationId);
-  }, [isRecording, analyser]);
+  return {
+    songs,
+    journey_narrative: readString(raw.journey_narrative),
+    iso_insight: readString(raw.iso_insight),
+    total_shift: diffStates(songs[songs.length - 1].target_state, start)
+  };
+};
 
-  return <canvas ref={canvasRef} width={600} height={100} className="w-full h-24 rounded-lg bg-black/20" />;
+// Unknown tracks and placements without a usable state come back as null states.
+const validateTrackPlacements = (raw: unknown, count: number): TrackPlacement[] => {
+  if (!isRecord(raw) || !Array.isArray(raw.placements)) {
+    throw new AiResponseError("MISSING_FIELD", "placements", "The AI response is missing \"placements\".");
+  }
+  if (raw.placements.length !== count) {
+    throw new AiResponseError("INVALID_VALUE", "placements", `The AI placed ${raw.placements.length} of ${count} tracks.`);
+  }
+  return raw.placements.map((item, i): TrackPlacement => {
+    if (!isRecord(item) || item.known === false || !isRecord(item.state)) {
+      return { state: null, note: isRecord(item) ? readString(item.note) : '' };
+    }
+    return {
+      state: normalizeAxisState(item.state, `placements[${i}].state`),
+      duration_sec: typeof item.duration_sec === 'number' ? readDuration(item.duration_sec) : undefined,
+      note: readString(item.note)
+    };
+  });
 };
 
-const MorphingBackground = ({ state }: { state: AxisState }) => {
-  const getGradient = () => {
-    const { energy: e, hedonic: h, reality: r } = state;
-    // Deep Ocean / Aurora base themes
-    if (e < -0.4 && h < -0.4) return "linear-gradient(-45deg, #020617, #0F172A, #1e1b4b, #000000)"; // Abyssal
-    else if (r > 0.4 || e > 0.6) return "linear-gradient(-45deg, #312e81, #4c1d95, #be185d, #881337)"; // Intense Aura
-    else if (r < -0.4) return "linear-gradient(-45deg, #0f172a, #134e4a, #115e59, #0f172a)"; // Foggy Deep
-    else return "linear-gradient(-45deg, #0f172a, #1e293b, #334155, #0f172a)"; // Neutral Deep
-  };
+const analysisSources = ({ journalText, journalEntries, audio }: { journalText?: string; journalEntries?: JournalEntry[]; audio?: unknown }): AnalysisSource[] => [
+  'sliders',
+  ...(audio ? ['voice' as const] : []),
+  ...(journalText || journalEntries?.length ? ['journal' as const] : [])
+];
 
-  return <div className="fixed inset-0 -z-20 bg-gradient-anim opacity-90 transition-all duration-2000" style={{ backgroundImage: getGradient() }} />;
+// Pairs the model's per-entry states with the entries they were asked for; extra or missing states are dropped.
+const readEntryTrend = (raw: unknown, entries: JournalEntry[], fallback: AxisState): JournalTrendPoint[] | undefined => {
+  if (!Array.isArray(raw) || entries.length === 0) return undefined;
+  const points = entries.flatMap((entry, i): JournalTrendPoint[] =>
+    isRecord(raw[i]) ? [{ entryId: entry.id, date: entry.date, title: entry.title, state: normalizeAxisState(raw[i], `entry_states[${i}]`, fallback) }] : []);
+  return points.length > 0 ? points : undefined;
 };
 
-const GeometricOverlay = () => (
-  <div className="fixed inset-0 -z-10 opacity-10 pointer-events-none mix-blend-overlay">
-    <svg width="100%" height="100%">
-      <defs>
-        <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
-          <path d="M 40 0 L 0 0 0 40" fill="none" stroke="white" strokeWidth="0.5" />
-        </pattern>
-        <pattern id="circles" width="100" height="100" patternUnits="userSpaceOnUse">
-          <circle cx="50" cy="50" r="40" fill="none" stroke="white" strokeWidth="0.5" />
-        </pattern>
-      </defs>
-      <rect width="100%" height="100%" fill="url(#grid)" className="animate-pulse-slow" />
-      <circle cx="50%" cy="50%" r="300" fill="url(#circles)" className="animate-spin-slow origin-center opacity-30" />
-    </svg>
-  </div>
-);
+const describeAiError = (e: unknown, action: string) => {
+  if (e instanceof ApiRequestError) {
+    if (e.status === 0) return `Couldn't reach the TherapyTune server while ${action}. Start it with "npm run server" or switch to the Offline engine.`;
+    if (e.status === 429) return `You're going a little fast. Please wait ${e.retryAfterSec ?? 60} seconds before ${action} again.`;
+    return `The server couldn't finish ${action}: ${e.message}`;
+  }
+  if (e instanceof AiResponseError) {
+    switch (e.code) {
+      case "EMPTY_RESPONSE":
+        return `The AI didn't return anything while ${action}. Please try again.`;
+      case "INVALID_JSON":
+        return `The AI's answer while ${action} was garbled. Please try again.`;
+      case "MISSING_FIELD":
+      case "INVALID_VALUE":
+        return `The AI's answer while ${action} was incomplete (${e.message}) Please try again.`;
+    }
+  }
+  return `Hmm, something went wrong ${action}. Please try again.`;
+};
 
-const WaveformBar = ({ color }: { color: string }) => (
-  <div className="flex items-end gap-[2px] h-8 opacity-70">
-    {[...Array(8)].map((_, i) => (
-      <div key={i} className="waveform-bar" style={{ color, animationDelay: `${i * 0.1}s`, animationDuration: `${0.8 + Math.random() * 0.5}s` }} />
-    ))}
-  </div>
-);
+// The offline engine runs out of tracks when genres are excluded or earlier picks are left out.
+const describeShortJourney = (received: number, requested: number) =>
+  `Only ${received} of the ${requested} songs you asked for could be found. Allow more genres or add tracks to your library for a longer journey.`;
 
-const ParticleJourney = ({ active }: { active: boolean }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !active) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    let particles: any[] = [];
-    const w = canvas.width = canvas.offsetWidth;
-    const h = canvas.height = canvas.offsetHeight;
-    const createParticle = () => ({
-      x: Math.random() * w,
-      y: h + 10,
-      vx: (Math.random() - 0.5) * 1,
-      vy: -Math.random() * 2 - 1,
-      size: Math.random() * 3 + 1,
-      color: `rgba(${100 + Math.random() * 155}, ${200 + Math.random() * 55}, 255, ${Math.random() * 0.5})`
-    });
-    for (let i = 0; i < 50; i++) particles.push(createParticle());
-    let animationId: number;
-    const animate = () => {
-      ctx.clearRect(0, 0, w, h);
-      particles.forEach((p, i) => {
-        p.y += p.vy;
-        p.x += p.vx;
-        p.size *= 0.99;
-        ctx.beginPath();
-        ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
-        ctx.fillStyle = p.color;
-        ctx.fill();
-        if (p.y < -10 || p.size < 0.1) particles[i] = createParticle();
-      });
-      animationId = requestAnimationFrame(animate);
-    };
-    animate();
-    return () => cancelAnimationFrame(animationId);
-  }, [active]);
-  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none opacity-50" />;
+// --- Journey Goals ---
+
+const GOAL_STORAGE_KEY = "therapytune.goal";
+const CUSTOM_GOAL_ID = "custom";
+
+const DEFAULT_GOAL = GOAL_PRESETS[0];
+
+const loadSavedGoal = (): JourneyGoal => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GOAL_STORAGE_KEY) ?? 'null');
+    if (saved?.id === CUSTOM_GOAL_ID) return customGoal(normalizeAxisState(saved.target, 'goal'));
+    return GOAL_PRESETS.find(g => g.id === saved?.id) ?? DEFAULT_GOAL;
+  } catch {
+    return DEFAULT_GOAL;
+  }
 };
 
-const SongCard: React.FC<{ song: Song; index: number }> = ({ song, index }) => {
-  const [feedback, setFeedback] = useState<string | null>(null);
+const saveGoal = (goal: JourneyGoal) =>
+  localStorage.setItem(GOAL_STORAGE_KEY, JSON.stringify({ id: goal.id, target: goal.target }));
 
-  return (
-    <div className="glass-card rounded-xl p-5 mb-4 flex gap-5 items-start transform transition-all hover:scale-[1.02] hover:bg-white/5 animate-fade-in-up group relative overflow-hidden" style={{ animationDelay: `${index * 200}ms`, borderLeft: `4px solid ${song.color_hex}` }}>
-      <div className="absolute inset-0 opacity-0 group-hover:opacity-10 transition-opacity duration-500" style={{ background: `linear-gradient(90deg, ${song.color_hex} 0%, transparent 100%)` }} />
-      
-      {/* Link covers the card but is positioned behind content (z-0). */}
-      <a 
-        href={`https://www.youtube.com/results?search_query=${encodeURIComponent(`${song.title} ${song.artist}`)}`} 
-        target="_blank" 
-        rel="noopener noreferrer" 
-        className="absolute inset-0 z-0" 
-        aria-label={`Listen to ${song.title}`} 
-      />
-      
-      <div className="flex-shrink-0 w-14 h-14 rounded-full flex items-center justify-center font-display font-bold text-xl shadow-lg relative mt-1 z-10 pointer-events-none" style={{ backgroundColor: song.color_hex, color: '#0F172A' }}>
-        {index + 1}
-      </div>
-      
-      <div className="flex-grow z-10 pointer-events-none">
-        <div className="flex justify-between items-center mb-1">
-          <div>
-            <h3 className="font-display font-bold text-lg text-white group-hover:text-brand-primary transition-colors">{song.title}</h3>
-            <p className="text-slate-400 text-sm font-medium">{song.artist}</p>
-          </div>
-          <WaveformBar color={song.color_hex} />
-        </div>
-        <p className="text-sm text-slate-300 leading-relaxed opacity-90 mb-3">{song.therapeutic_note}</p>
-        
-        {/* Buttons: pointer-events-auto ensures they are clickable */}
-        <div className="flex gap-2 pointer-events-auto">
-           <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); setFeedback('heavy'); }} className={`text-xs px-3 py-1 rounded-full border transition-colors ${feedback === 'heavy' ? 'bg-white/20 border-white text-white' : 'border-white/10 text-slate-400 hover:bg-white/5'}`}>Too Heavy</button>
-           <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); setFeedback('meh'); }} className={`text-xs px-3 py-1 rounded-full border transition-colors ${feedback === 'meh' ? 'bg-white/20 border-white text-white' : 'border-white/10 text-slate-400 hover:bg-white/5'}`}>Not Quite</button>
-           <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); setFeedback('good')} } className={`text-xs px-3 py-1 rounded-full border transition-colors ${feedback === 'good' ? 'bg-brand-primary/20 border-brand-primary text-brand-primary' : 'border-brand-primary/30 text-brand-primary/70 hover:bg-brand-primary/10'}`}>Yes! ✓</button>
-        </div>
-      </div>
-    </div>
-  );
+const customGoal = (target: AxisState): JourneyGoal => ({
+  id: CUSTOM_GOAL_ID,
+  label: 'My custom goal',
+  emoji: '✏️',
+  description: 'Your own end state',
+  target
+});
+
+// --- Journey Length ---
+
+const LENGTH_STORAGE_KEY = "therapytune.length";
+
+const DEFAULT_LENGTH: JourneyLength = { mode: "songs", songs: 5 };
+
+const clampRange = (value: number, range: { min: number; max: number }) => Math.max(range.min, Math.min(range.max, Math.round(value)));
+
+const loadSavedLength = (): JourneyLength => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LENGTH_STORAGE_KEY) ?? 'null');
+    if (saved?.mode === "minutes" && typeof saved.minutes === 'number') return { mode: "minutes", minutes: clampRange(saved.minutes, MINUTES_RANGE) };
+    if (saved?.mode === "songs" && typeof saved.songs === 'number') return { mode: "songs", songs: clampRange(saved.songs, SONG_COUNT_RANGE) };
+    return DEFAULT_LENGTH;
+  } catch {
+    return DEFAULT_LENGTH;
+  }
 };
 
-// --- NEW SCIENTIFIC & VISUALIZATION COMPONENTS ---
+const saveLength = (length: JourneyLength) =>
+  localStorage.setItem(LENGTH_STORAGE_KEY, JSON.stringify(length));
 
-const AxisSelector = ({ active, onChange }: { active: string, onChange: (axis: string) => void }) => {
-    const axes = ['energy', 'reality', 'temporal', 'repetition', 'hedonic'];
-    
-    return (
-      <div className="flex gap-1 p-1 bg-slate-800/50 rounded-lg mb-4">
-        {axes.map(axis => (
-          <button
-            key={axis}
-            onClick={() => onChange(axis)}
-            className={`flex-1 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded transition-all
-              ${active === axis 
-                ? 'bg-gradient-to-r from-teal-400 to-purple-400 text-slate-900 shadow-lg shadow-purple-500/20' 
-                : 'text-slate-500 hover:text-white'
-              }`}
-          >
-            {axis.slice(0, 3)}
-          </button>
-        ))}
-      </div>
-    );
+const songCountFor = (length: JourneyLength) =>
+  length.mode === "songs" ? length.songs : clampRange(length.minutes * 60 / DEFAULT_SONG_SECONDS, SONG_COUNT_RANGE);
+
+// Rounded to the minutes slider's step so switching modes keeps roughly the same length.
+const minutesFor = (songCount: number) =>
+  clampRange(songCount * DEFAULT_SONG_SECONDS / 60 / MINUTES_RANGE.step, { min: MINUTES_RANGE.min / MINUTES_RANGE.step, max: MINUTES_RANGE.max / MINUTES_RANGE.step }) * MINUTES_RANGE.step;
+
+const targetMinutesFor = (length: JourneyLength) => length.mode === "minutes" ? length.minutes : undefined;
+
+const songSeconds = (song: Song) => song.duration_sec ?? DEFAULT_SONG_SECONDS;
+
+const totalSeconds = (songs: Song[]) => songs.reduce((sum, song) => sum + songSeconds(song), 0);
+
+const formatDuration = (seconds: number) => {
+  const s = Math.round(seconds);
+  return s >= 3600
+    ? `${Math.floor(s / 3600)}:${String(Math.floor(s / 60) % 60).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`
+    : `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// The per-song step is the largest axis distance spread over the songs after
+// the first, so short journeys may move faster and long ones move gently. It
+// never exceeds the ISO limit; a journey that needs more room simply ends short
+// of the target.
+const deriveStepLimit = (start: AxisState, target: AxisState, songCount: number) => {
+  if (songCount < 2) return ISO_MAX_STEP;
+  const distance = Math.max(...AXES.map(axis => Math.abs(target[axis] - start[axis])));
+  return Math.max(MIN_ISO_STEP, Math.min(ISO_MAX_STEP, Math.ceil(distance / (songCount - 1) * 100) / 100));
+};
+
+// --- ISO Principle Compliance ---
+
+// Checks each song against the start -> target path: song 1 must meet the
+// listener where they are, and every later song may only take a bounded step
+// towards the target on each axis. Guided check-ins re-anchor the path, so the
+// song after one must meet the measured state instead of its predecessor.
+const checkIsoCompliance = (songs: Song[], start: AxisState, target: AxisState, maxStep = ISO_MAX_STEP, checkIns: CheckIn[] = []): IsoReport => {
+  const violations: IsoViolation[] = [];
+  const anchors = new Map(checkIns.map(c => [c.afterSong + 1, c.state]));
+  let checks = 0;
+
+  songs.forEach((song, i) => {
+    const anchor = i === 0 ? start : anchors.get(i);
+    const prev = anchor ?? songs[i - 1].target_state;
+    AXES.forEach(axis => {
+      checks++;
+      const from = prev[axis];
+      const to = song.target_state[axis];
+      if (anchor) {
+        if (Math.abs(to - from) > ISO_START_TOLERANCE + ISO_EPSILON) {
+          violations.push({ songIndex: i, songTitle: song.title, axis, kind: "START_MISMATCH", from, to, limit: ISO_START_TOLERANCE });
+        }
+        return;
+      }
+      if (Math.abs(to - from) > maxStep + ISO_EPSILON) {
+        violations.push({ songIndex: i, songTitle: song.title, axis, kind: "STEP_TOO_LARGE", from, to, limit: maxStep });
+      } else if (Math.abs(to - target[axis]) > Math.abs(from - target[axis]) + ISO_DIRECTION_SLACK) {
+        violations.push({ songIndex: i, songTitle: song.title, axis, kind: "WRONG_DIRECTION", from, to, limit: ISO_DIRECTION_SLACK });
+      }
+    });
+  });
+
+  const failedChecks = new Set(violations.map(v => `${v.songIndex}:${v.axis}`)).size;
+  return {
+    compliant: violations.length === 0,
+    score: checks === 0 ? 1 : (checks - failedChecks) / checks,
+    violations,
+    repaired: false,
+    maxStep
   };
-  
-  interface JourneyGraphProps {
-    songs: Song[];
-    initialState: AxisState;
-    targetState: AxisState;
-    activeAxis: Exclude<keyof AxisState, 'summary'>;
+};
+
+// How far along the start -> target path a state sits, averaged over the axes that actually move.
+const journeyProgress = (state: AxisState, start: AxisState, target: AxisState) => {
+  const moving = AXES.filter(axis => Math.abs(target[axis] - start[axis]) > ISO_EPSILON);
+  if (moving.length === 0) return 0;
+  return moving.reduce((sum, axis) => sum + (state[axis] - start[axis]) / (target[axis] - start[axis]), 0) / moving.length;
+};
+
+// Re-orders songs along the path and clamps their coordinates so the journey
+// satisfies the ISO rules. Shifts are recomputed from the repaired coordinates.
+const repairJourney = (songs: Song[], start: AxisState, target: AxisState, maxStep = ISO_MAX_STEP): Song[] => {
+  const ordered = songs
+    .map((song, i) => ({ song, i, progress: journeyProgress(song.target_state, start, target) }))
+    .sort((a, b) => a.progress - b.progress || a.i - b.i)
+    .map(entry => entry.song);
+
+  let prev = start;
+  return ordered.map((song, i) => {
+    const next: AxisState = { ...song.target_state };
+    AXES.forEach(axis => {
+      const value = song.target_state[axis];
+      if (i === 0) {
+        next[axis] = Math.min(prev[axis] + ISO_START_TOLERANCE, Math.max(prev[axis] - ISO_START_TOLERANCE, value));
+      } else if (target[axis] >= prev[axis]) {
+        next[axis] = Math.max(prev[axis], Math.min(prev[axis] + maxStep, target[axis], value));
+      } else {
+        next[axis] = Math.min(prev[axis], Math.max(prev[axis] - maxStep, target[axis], value));
+      }
+      next[axis] = roundAxis(clampAxis(next[axis]));
+    });
+    const repaired: Song = { ...song, target_state: next, axis_shifts: diffStates(next, prev) };
+    prev = next;
+    return repaired;
+  });
+};
+
+// Where to restart a journey after the listener flags song N. "Too heavy"
+// steps from the previous song towards the target by half the ISO step;
+// "not quite" keeps the same direction but takes only half the step.
+const adjustWaypoint = (prev: AxisState, rejected: AxisState, target: AxisState, feedback: "heavy" | "meh", maxStep = ISO_MAX_STEP): AxisState => {
+  const waypoint = {} as AxisState;
+  AXES.forEach(axis => {
+    const towardTarget = Math.sign(target[axis] - prev[axis]) * Math.min(maxStep / 2, Math.abs(target[axis] - prev[axis]));
+    waypoint[axis] = roundAxis(feedback === 'heavy'
+      ? prev[axis] + towardTarget
+      : prev[axis] + (rejected[axis] - prev[axis]) / 2);
+  });
+  return waypoint;
+};
+
+const describeIsoViolation = (v: IsoViolation) => {
+  const step = Math.abs(v.to - v.from).toFixed(2);
+  switch (v.kind) {
+    case "START_MISMATCH":
+      return `starts ${step} away from your current state (max ±${v.limit.toFixed(1)})`;
+    case "STEP_TOO_LARGE":
+      return `jumps ${step} from ${v.from.toFixed(1)} to ${v.to.toFixed(1)} (max ${v.limit.toFixed(2)} per song)`;
+    case "WRONG_DIRECTION":
+      return `moves away from the target (${v.from.toFixed(1)} → ${v.to.toFixed(1)})`;
   }
-  
-  const JourneyGraph = ({ songs, initialState, targetState, activeAxis }: JourneyGraphProps) => {
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    
-    // Axis labels mapping
-    const axisLabels: Record<string, { low: string; high: string }> = {
-      energy: { low: 'Exhausted', high: 'Wired' },
-      reality: { low: 'Foggy', high: 'On Edge' },
-      temporal: { low: 'Past-focused', high: 'Future-anxious' },
-      repetition: { low: 'Bored', high: 'Obsessing' },
-      hedonic: { low: 'Numb', high: 'Overwhelmed' }
+};
+
+// --- Analysis & Playlist Engines ---
+
+const postApi = async <T,>(path: string, body: T): Promise<GenerateApiResponse> => {
+  let resp: Response;
+  try {
+    resp = await fetch(path, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  } catch {
+    throw new ApiRequestError(0, "Network error");
+  }
+  if (!resp.ok) {
+    const payload = await resp.json().catch(() => null) as ApiErrorResponse | null;
+    const retryAfter = Number(resp.headers.get("Retry-After"));
+    throw new ApiRequestError(resp.status, payload?.error ?? resp.statusText, retryAfter || undefined);
+  }
+  return resp.json();
+};
+
+// Talks to the bundled API server, which holds the key and the prompts.
+const createGeminiEngine = (): TherapyEngine => ({
+  id: "gemini",
+  label: "Gemini",
+
+  async analyzeState({ state, journalText, journalEntries, audio }) {
+    const request: AnalyzeApiRequest = {
+      state,
+      journalText,
+      journalEntries,
+      audio: audio && { data: await blobToBase64(audio.blob), mimeType: baseMimeType(audio.blob.type), metrics: audio.metrics }
     };
-  
-    useEffect(() => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-  
-      const w = canvas.width;
-      const h = canvas.height;
-      const padding = 40;
-      const graphW = w - padding * 2;
-      const graphH = h - padding * 2;
-  
-      ctx.clearRect(0, 0, w, h);
-  
-      // Background Gradient
-      const bgGrad = ctx.createLinearGradient(0, 0, 0, h);
-      bgGrad.addColorStop(0, 'rgba(239, 68, 68, 0.1)');  // High/Extreme
-      bgGrad.addColorStop(0.5, 'rgba(45, 212, 191, 0.1)'); // Healthy Middle
-      bgGrad.addColorStop(1, 'rgba(59, 130, 246, 0.1)');  // Low/Extreme
-      ctx.fillStyle = bgGrad;
-      ctx.fillRect(padding, padding, graphW, graphH);
-  
-      // Healthy Zone (-0.3 to +0.3)
-      const healthyTop = padding + graphH * (1 - (0.3 + 1) / 2);
-      const healthyBottom = padding + graphH * (1 - (-0.3 + 1) / 2);
-      ctx.fillStyle = 'rgba(45, 212, 191, 0.15)';
-      ctx.fillRect(padding, healthyTop, graphW, healthyBottom - healthyTop);
-      
-      // Center Line (0)
-      const centerY = padding + graphH / 2;
-      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-      ctx.setLineDash([5, 5]);
-      ctx.beginPath();
-      ctx.moveTo(padding, centerY);
-      ctx.lineTo(w - padding, centerY);
-      ctx.stroke();
-      ctx.setLineDash([]);
-  
-      // Axis Labels
-      ctx.fillStyle = '#94a3b8';
-      ctx.font = '10px Outfit';
-      ctx.textAlign = 'right';
-      ctx.fillText(axisLabels[activeAxis].high, padding - 5, padding + 10);
-      ctx.fillText('0', padding - 5, centerY + 3);
-      ctx.fillText(axisLabels[activeAxis].low, padding - 5, h - padding);
-  
-      // Calculate Points
-      // Normalize values from -1...1 to 0...1 for canvas Y (inverted)
-      const getY = (val: number) => padding + graphH * (1 - (val + 1) / 2);
-      
-      const points = [
-        { x: padding, y: getY(initialState[activeAxis]), label: 'Start', color: '#F472B6' },
-        ...songs.map((song, i) => ({
-          x: padding + graphW * ((i + 1) / (songs.length + 1)),
-          y: getY(song.target_state[activeAxis]),
-          label: `Song ${i + 1}`,
-          color: song.color_hex
-        })),
-        { x: w - padding, y: getY(targetState[activeAxis]), label: 'Target', color: '#2DD4BF' }
-      ];
-  
-      // Draw Curve
-      ctx.strokeStyle = 'rgba(167, 139, 250, 0.8)';
-      ctx.lineWidth = 3;
-      ctx.beginPath();
-      ctx.moveTo(points[0].x, points[0].y);
-      
-      for (let i = 1; i < points.length; i++) {
-        const xc = (points[i].x + points[i - 1].x) / 2;
-        const yc = (points[i].y + points[i - 1].y) / 2;
-        ctx.quadraticCurveTo(points[i - 1].x, points[i - 1].y, xc, yc);
+    const { text } = await postApi("/api/analyze", request);
+    const raw = parseJsonResponse(text);
+    const suggestion = validateAiSuggestion(raw, state, analysisSources(request));
+    const trend = isRecord(raw) ? readEntryTrend(raw.entry_states, journalEntries ?? [], state) : undefined;
+    return trend ? { ...suggestion, entry_trend: trend } : suggestion;
+  },
+
+  async generatePlaylist(request) {
+    const { text } = await postApi("/api/playlist", request);
+    const playlist = validatePlaylistResponse(parseJsonResponse(text), request.startState);
+    return request.catalog?.length
+      ? { ...playlist, songs: verifyAgainstCatalog(playlist.songs, request.catalog, request) }
+      : playlist;
+  },
+
+  async placeTracks(tracks) {
+    const { text } = await postApi<PlaceTracksApiRequest>("/api/place-tracks", { tracks });
+    return validateTrackPlacements(parseJsonResponse(text), tracks.length);
+  }
+});
+
+// Bundled tracks for the offline engine. Coordinates are hand-placed on the
+// five axes in the order energy, reality, temporal, repetition, hedonic.
+const OFFLINE_TRACKS: { title: string; artist: string; genre: string; axes: [number, number, number, number, number]; seconds: number }[] = [
+  { title: "Clair de Lune", artist: "Claude Debussy", genre: "classical", axes: [-0.5, -0.2, -0.3, 0, 0.1], seconds: 300 },
+  { title: "Adagio for Strings", artist: "Samuel Barber", genre: "classical", axes: [-0.6, -0.1, -0.5, 0.1, -0.4], seconds: 480 },
+  { title: "Gymnopédie No. 1", artist: "Erik Satie", genre: "classical", axes: [-0.7, -0.3, -0.2, 0.2, -0.2], seconds: 195 },
+  { title: "Canon in D", artist: "Johann Pachelbel", genre: "classical", axes: [-0.2, 0.1, 0, 0.3, 0.3], seconds: 300 },
+  { title: "Spring (The Four Seasons)", artist: "Antonio Vivaldi", genre: "classical", axes: [0.5, 0.2, 0.2, 0, 0.5], seconds: 200 },
+  { title: "Weightless", artist: "Marconi Union", genre: "ambient", axes: [-0.8, -0.3, 0, 0.1, 0], seconds: 480 },
+  { title: "An Ending (Ascent)", artist: "Brian Eno", genre: "ambient", axes: [-0.7, -0.4, -0.1, 0.1, 0], seconds: 266 },
+  { title: "Avril 14th", artist: "Aphex Twin", genre: "ambient", axes: [-0.5, -0.2, -0.4, 0.1, 0.1], seconds: 125 },
+  { title: "Svefn-g-englar", artist: "Sigur Rós", genre: "ambient", axes: [-0.4, -0.5, -0.2, 0.2, 0.2], seconds: 604 },
+  { title: "Snowman", artist: "WYS", genre: "lofi", axes: [-0.5, -0.1, -0.3, 0.1, 0], seconds: 150 },
+  { title: "Affection", artist: "Jinsang", genre: "lofi", axes: [-0.3, 0, -0.2, 0.2, 0.2], seconds: 140 },
+  { title: "Aruarian Dance", artist: "Nujabes", genre: "lofi", axes: [-0.2, 0, -0.1, 0.2, 0.3], seconds: 246 },
+  { title: "Feather", artist: "Nujabes", genre: "lofi", axes: [0, 0.1, 0, 0.1, 0.4], seconds: 175 },
+  { title: "Blue in Green", artist: "Miles Davis", genre: "jazz", axes: [-0.6, -0.1, -0.4, 0, -0.2], seconds: 337 },
+  { title: "My Funny Valentine", artist: "Chet Baker", genre: "jazz", axes: [-0.5, 0, -0.5, 0, 0], seconds: 140 },
+  { title: "What a Wonderful World", artist: "Louis Armstrong", genre: "jazz", axes: [-0.1, 0.2, 0, 0, 0.5], seconds: 137 },
+  { title: "Take Five", artist: "The Dave Brubeck Quartet", genre: "jazz", axes: [0.2, 0.2, 0, 0.2, 0.4], seconds: 324 },
+  { title: "Sing, Sing, Sing", artist: "Benny Goodman", genre: "jazz", axes: [0.7, 0.4, 0.1, 0.2, 0.6], seconds: 522 },
+  { title: "Breathe", artist: "Lee Hi", genre: "kpop", axes: [-0.6, -0.1, -0.2, 0.1, -0.3], seconds: 201 },
+  { title: "Through the Night", artist: "IU", genre: "kpop", axes: [-0.5, -0.1, -0.3, 0, 0.1], seconds: 254 },
+  { title: "Spring Day", artist: "BTS", genre: "kpop", axes: [-0.3, 0, -0.5, 0, 0], seconds: 274 },
+  { title: "Eight", artist: "IU ft. SUGA", genre: "kpop", axes: [0, 0.1, -0.3, 0, 0.3], seconds: 167 },
+  { title: "Dynamite", artist: "BTS", genre: "kpop", axes: [0.6, 0.3, 0.1, 0.1, 0.7], seconds: 199 },
+  { title: "First Love", artist: "Utada Hikaru", genre: "jpop", axes: [-0.4, 0, -0.6, 0.1, -0.2], seconds: 257 },
+  { title: "Lemon", artist: "Kenshi Yonezu", genre: "jpop", axes: [-0.2, 0.1, -0.5, 0.1, -0.1], seconds: 255 },
+  { title: "Pretender", artist: "Official HIGE DANdism", genre: "jpop", axes: [0.1, 0.2, -0.3, 0.2, 0], seconds: 327 },
+  { title: "Yoru ni Kakeru", artist: "YOASOBI", genre: "jpop", axes: [0.6, 0.4, 0, 0.3, 0.2], seconds: 261 },
+  { title: "Idol", artist: "YOASOBI", genre: "jpop", axes: [0.8, 0.6, 0.2, 0.2, 0.6], seconds: 213 },
+  { title: "Someone Like You", artist: "Adele", genre: "pop", axes: [-0.5, 0, -0.6, 0.2, -0.3], seconds: 285 },
+  { title: "drivers license", artist: "Olivia Rodrigo", genre: "pop", axes: [-0.2, 0.2, -0.6, 0.4, -0.4], seconds: 242 },
+  { title: "Fix You", artist: "Coldplay", genre: "pop", axes: [-0.3, 0, -0.2, 0, 0.1], seconds: 295 },
+  { title: "Here Comes the Sun", artist: "The Beatles", genre: "pop", axes: [0.2, 0.2, 0.1, 0, 0.6], seconds: 185 },
+  { title: "Happy", artist: "Pharrell Williams", genre: "pop", axes: [0.7, 0.3, 0.1, 0.2, 0.8], seconds: 233 },
+  { title: "Re: Stacks", artist: "Bon Iver", genre: "indie", axes: [-0.6, -0.3, -0.4, 0.1, -0.3], seconds: 401 },
+  { title: "Holocene", artist: "Bon Iver", genre: "indie", axes: [-0.5, -0.2, -0.3, 0, -0.1], seconds: 336 },
+  { title: "Motion Sickness", artist: "Phoebe Bridgers", genre: "indie", axes: [0, 0.2, -0.3, 0.3, -0.1], seconds: 229 },
+  { title: "Electric Feel", artist: "MGMT", genre: "indie", axes: [0.4, 0.1, 0, 0.2, 0.5], seconds: 229 },
+  { title: "Dog Days Are Over", artist: "Florence + The Machine", genre: "indie", axes: [0.6, 0.3, 0.1, 0.1, 0.6], seconds: 252 },
+  { title: "The Night We Met", artist: "Lord Huron", genre: "folk", axes: [-0.4, -0.1, -0.6, 0.2, -0.2], seconds: 208 },
+  { title: "Harvest Moon", artist: "Neil Young", genre: "folk", axes: [-0.3, 0, -0.2, 0, 0.3], seconds: 303 },
+  { title: "Fast Car", artist: "Tracy Chapman", genre: "folk", axes: [-0.1, 0.1, 0.3, 0.1, 0], seconds: 296 },
+  { title: "Ho Hey", artist: "The Lumineers", genre: "folk", axes: [0.4, 0.1, 0, 0.1, 0.5], seconds: 163 },
+  { title: "Ain't No Sunshine", artist: "Bill Withers", genre: "rnb", axes: [-0.4, 0.1, -0.4, 0.3, -0.3], seconds: 125 },
+  { title: "Best Part", artist: "Daniel Caesar ft. H.E.R.", genre: "rnb", axes: [-0.3, 0, 0, 0.1, 0.3], seconds: 209 },
+  { title: "At Last", artist: "Etta James", genre: "rnb", axes: [-0.2, 0.1, 0, 0, 0.5], seconds: 179 },
+  { title: "Redbone", artist: "Childish Gambino", genre: "rnb", axes: [0, -0.1, 0, 0.3, 0.2], seconds: 327 },
+  { title: "Lovely Day", artist: "Bill Withers", genre: "rnb", axes: [0.3, 0.2, 0.1, 0.1, 0.6], seconds: 254 },
+  { title: "Love Yourz", artist: "J. Cole", genre: "hiphop", axes: [-0.2, 0.2, -0.1, 0.1, 0.1], seconds: 211 },
+  { title: "Sunflower", artist: "Post Malone & Swae Lee", genre: "hiphop", axes: [0.3, 0.1, 0, 0.1, 0.5], seconds: 158 },
+  { title: "Alright", artist: "Kendrick Lamar", genre: "hiphop", axes: [0.5, 0.3, 0.2, 0.1, 0.4], seconds: 219 },
+  { title: "Lose Yourself", artist: "Eminem", genre: "hiphop", axes: [0.8, 0.7, 0.4, 0.4, 0.2], seconds: 326 },
+  { title: "Black", artist: "Pearl Jam", genre: "rock", axes: [-0.4, 0.1, -0.6, 0.3, -0.4], seconds: 343 },
+  { title: "Wish You Were Here", artist: "Pink Floyd", genre: "rock", axes: [-0.3, -0.1, -0.5, 0.1, -0.1], seconds: 334 },
+  { title: "Don't Stop Believin'", artist: "Journey", genre: "rock", axes: [0.6, 0.3, 0.3, 0.1, 0.6], seconds: 251 },
+  { title: "Everlong", artist: "Foo Fighters", genre: "rock", axes: [0.7, 0.5, 0.1, 0.3, 0.3], seconds: 250 },
+  { title: "Mr. Brightside", artist: "The Killers", genre: "rock", axes: [0.8, 0.6, 0.2, 0.6, 0.3], seconds: 222 },
+  { title: "Teardrop", artist: "Massive Attack", genre: "electronic", axes: [-0.4, -0.2, -0.1, 0.3, -0.1], seconds: 330 },
+  { title: "Porcelain", artist: "Moby", genre: "electronic", axes: [-0.3, -0.2, -0.2, 0.2, 0], seconds: 241 },
+  { title: "Innerbloom", artist: "RÜFÜS DU SOL", genre: "electronic", axes: [0, 0, 0, 0.3, 0.3], seconds: 578 },
+  { title: "Strobe", artist: "deadmau5", genre: "electronic", axes: [0.2, 0, 0.1, 0.4, 0.3], seconds: 637 },
+  { title: "Midnight City", artist: "M83", genre: "electronic", axes: [0.5, 0.2, 0.1, 0.2, 0.5], seconds: 243 },
+  { title: "Faded", artist: "Alan Walker", genre: "edm", axes: [0.2, 0, -0.3, 0.2, 0], seconds: 212 },
+  { title: "Language", artist: "Porter Robinson", genre: "edm", axes: [0.4, 0.1, 0.2, 0.1, 0.5], seconds: 365 },
+  { title: "Wake Me Up", artist: "Avicii", genre: "edm", axes: [0.6, 0.3, 0.3, 0.1, 0.5], seconds: 247 },
+  { title: "Titanium", artist: "David Guetta ft. Sia", genre: "edm", axes: [0.7, 0.5, 0.2, 0.1, 0.4], seconds: 245 },
+  { title: "Levels", artist: "Avicii", genre: "edm", axes: [0.9, 0.5, 0.2, 0.3, 0.8], seconds: 199 },
+];
+
+// Keyword cues for the offline text analysis: each hit nudges one axis.
+const OFFLINE_TEXT_CUES: { axis: AxisKey; delta: number; words: string[] }[] = [
+  { axis: 'energy', delta: -0.15, words: ['tired', 'exhausted', 'drained', 'sleepy', 'worn out', 'lethargic', 'heavy'] },
+  { axis: 'energy', delta: 0.15, words: ['wired', 'restless', 'buzzing', 'hyper', 'jittery', "can't sit still", 'excited'] },
+  { axis: 'reality', delta: -0.15, words: ['foggy', 'spaced', 'dissociated', 'unreal', 'detached', 'hazy'] },
+  { axis: 'reality', delta: 0.15, words: ['on edge', 'tense', 'panic', 'alert', 'jumpy', 'anxious'] },
+  { axis: 'temporal', delta: -0.15, words: ['remember', 'miss', 'regret', 'used to', 'yesterday', 'nostalgic'] },
+  { axis: 'temporal', delta: 0.15, words: ['tomorrow', 'what if', 'deadline', 'next week', 'worried', 'future'] },
+  { axis: 'repetition', delta: -0.15, words: ['bored', 'stuck', 'pointless', 'same old', 'monotonous'] },
+  { axis: 'repetition', delta: 0.15, words: ["can't stop", 'keep thinking', 'over and over', 'ruminating', 'obsess', 'loop'] },
+  { axis: 'hedonic', delta: -0.15, words: ['empty', 'flat', 'numb', 'meh', 'nothing matters', 'hollow'] },
+  { axis: 'hedonic', delta: 0.15, words: ['overwhelmed', 'too much', 'crying', 'intense', 'flooded'] },
+];
+
+const OFFLINE_MAX_ADJUSTMENT = 0.5;
+const OFFLINE_ACCEPTED_BONUS = 0.1;
+const OFFLINE_SLIDER_WEIGHT = 0.5;
+
+const AXIS_POLES: Record<AxisKey, { low: string; high: string }> = {
+  energy: { low: 'exhausted', high: 'wired' },
+  reality: { low: 'foggy', high: 'on edge' },
+  temporal: { low: 'past-focused', high: 'future-anxious' },
+  repetition: { low: 'bored', high: 'obsessing' },
+  hedonic: { low: 'numb', high: 'overwhelmed' }
+};
+
+const dominantAxis = (state: AxisState): AxisKey =>
+  AXES.reduce((max, axis) => Math.abs(state[axis]) > Math.abs(state[max]) ? axis : max, AXES[0]);
+
+const describeState = (state: AxisState) => {
+  const axis = dominantAxis(state);
+  if (Math.abs(state[axis]) < 0.2) return 'fairly balanced state';
+  return `${state[axis] < 0 ? AXIS_POLES[axis].low : AXIS_POLES[axis].high} ${axis}`;
+};
+
+const stateDistance = (a: AxisState, b: AxisState) =>
+  Math.sqrt(AXES.reduce((sum, axis) => sum + (a[axis] - b[axis]) ** 2, 0));
+
+// Evenly spaced waypoints from start towards target, never exceeding the step limit.
+const planWaypoints = (start: AxisState, target: AxisState, count: number, maxStep = ISO_MAX_STEP): AxisState[] => {
+  const waypoints: AxisState[] = [];
+  for (let i = 0; i < count; i++) {
+    const point = {} as AxisState;
+    AXES.forEach(axis => {
+      const distance = target[axis] - start[axis];
+      const step = count > 1 ? Math.sign(distance) * Math.min(maxStep, Math.abs(distance) / (count - 1)) : 0;
+      point[axis] = roundAxis(start[axis] + step * i);
+    });
+    waypoints.push(point);
+  }
+  return waypoints;
+};
+
+const trackLabel = (track: { title: string; artist: string }) => `${track.title} — ${track.artist}`;
+
+const trackState = (track: typeof OFFLINE_TRACKS[number]): AxisState =>
+  AXES.reduce((state, axis, i) => ({ ...state, [axis]: track.axes[i] }), {} as AxisState);
+
+// The bundled tracks in catalog form; used when no music library is loaded.
+const OFFLINE_CATALOG: CatalogTrack[] = OFFLINE_TRACKS.map(t => ({ title: t.title, artist: t.artist, genre: t.genre, duration_sec: t.seconds, state: trackState(t) }));
+
+const OFFLINE_INSIGHTS = {
+  low: "Listeners who start a sad-music session with a matching sad song report feeling more understood, and the later lift lands more strongly than when cheerful music comes first.",
+  high: "Matching a racing mind with music at a similar tempo lets heart rate entrain to the beat, so slowing the tempo song by song can bring arousal down with it.",
+  balanced: "Even small, consistent shifts in music help maintain emotional balance: the brain's reward system responds to gentle novelty as well as to big changes."
+};
+
+const offlineInsightFor = (startState: AxisState) => {
+  const axis = dominantAxis(startState);
+  return startState[axis] < -0.4 ? OFFLINE_INSIGHTS.low : startState[axis] > 0.4 ? OFFLINE_INSIGHTS.high : OFFLINE_INSIGHTS.balanced;
+};
+
+const EDITION_WORDS = '(feat|ft|remaster(ed)?|live|version|edit|mix|mono|stereo)';
+
+// Case, punctuation, "feat." credits and edition tags ("(Live)", "- 2011
+// Remaster") don't matter when matching track names.
+const normalizeTrackName = (name: string) =>
+  name.toLowerCase()
+    .replace(new RegExp(`\\s*[([][^)\\]]*\\b${EDITION_WORDS}\\b[^)\\]]*[)\\]]`, 'g'), '')
+    .replace(new RegExp(`\\s+-\\s+[^-]*\\b${EDITION_WORDS}\\b.*$`), '')
+    .replace(/\b(feat|ft)\..*$/, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const findOfflineTrack = (track: ImportedTrack) => {
+  const title = normalizeTrackName(track.title);
+  const artist = normalizeTrackName(track.artist);
+  return OFFLINE_TRACKS.find(t => normalizeTrackName(t.title) === title && (!artist || normalizeTrackName(t.artist).includes(artist) || artist.includes(normalizeTrackName(t.artist))));
+};
+
+const SOURCE_LABELS: Record<AnalysisSource, string> = {
+  sliders: "Sliders",
+  voice: "Voice",
+  journal: "Journal"
+};
+
+// "Your voice pulled energy down by 0.20 and reality up by 0.15"
+const describeContribution = (source: AnalysisSource, shifts: AxisState) => {
+  const moves = AXES
+    .filter(axis => Math.abs(shifts[axis]) >= ISO_EPSILON)
+    .map(axis => `${axis} ${shifts[axis] < 0 ? 'down' : 'up'} by ${Math.abs(shifts[axis]).toFixed(2)}`);
+  const subject = source === 'voice' ? 'Your voice' : source === 'journal' ? 'Your journal' : 'Your settings';
+  return moves.length === 0 ? `${subject} didn't move any axis.` : `${subject} pulled ${moves.join(', ').replace(/, ([^,]*)$/, ' and $1')}.`;
+};
+
+// Keyword cues in a piece of writing, capped so no single axis swings too far.
+const journalCueShifts = (journalText: string) => {
+  const text = journalText.toLowerCase();
+  const cues: string[] = [];
+  const shifts: AxisState = { ...ZERO_SHIFTS };
+  OFFLINE_TEXT_CUES.forEach(({ axis, delta, words }) => {
+    words.forEach(word => {
+      if (text.includes(word)) {
+        shifts[axis] += delta;
+        cues.push(`"${word}"`);
       }
-      ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
-      ctx.stroke();
-  
-      // Draw Points
-      points.forEach((p, i) => {
-        // Glow effect
-        ctx.shadowColor = p.color;
-        ctx.shadowBlur = 10;
-        
-        ctx.beginPath();
-        ctx.arc(p.x, p.y, i === 0 || i === points.length - 1 ? 8 : 6, 0, Math.PI * 2);
-        ctx.fillStyle = p.color;
-        ctx.fill();
-        ctx.shadowBlur = 0;
-  
-        // Labels
-        ctx.fillStyle = '#e2e8f0';
-        ctx.font = '9px Outfit';
-        ctx.textAlign = 'center';
-        ctx.fillText(p.label, p.x, p.y + 20);
-        
-        // Values
-        const value = i === 0 ? initialState[activeAxis] : 
-                      i === points.length - 1 ? targetState[activeAxis] : 
-                      songs[i - 1].target_state[activeAxis];
-        ctx.fillStyle = '#94a3b8';
-        ctx.fillText(value.toFixed(1), p.x, p.y - 12);
-      });
-  
-    }, [songs, initialState, targetState, activeAxis]);
-  
-    return (
-      <div className="relative">
-        <canvas ref={canvasRef} width={500} height={200} className="w-full" />
+    });
+  });
+  AXES.forEach(axis => {
+    shifts[axis] = Math.max(-OFFLINE_MAX_ADJUSTMENT, Math.min(OFFLINE_MAX_ADJUSTMENT, shifts[axis]));
+  });
+  return { shifts, cues };
+};
+
+const createOfflineEngine = (): TherapyEngine => ({
+  id: "offline",
+  label: "Offline (rule-based)",
+
+  async analyzeState({ state, journalText, journalEntries = [], audio }) {
+    const voiceShifts: AxisState = { ...ZERO_SHIFTS };
+    const { shifts: journalShifts, cues } = journalCueShifts([journalText ?? '', ...journalEntries.map(e => e.text)].join('\n'));
+    const entry_trend = journalEntries.map((entry): JournalTrendPoint => {
+      const { shifts } = journalCueShifts(entry.text);
+      const entryState = {} as AxisState;
+      AXES.forEach(axis => { entryState[axis] = roundAxis(clampAxis(state[axis] + shifts[axis])); });
+      return { entryId: entry.id, date: entry.date, title: entry.title, state: entryState };
+    });
+
+    let voice_analysis: VoiceMetrics | undefined;
+    if (audio?.metrics) {
+      const m = audio.metrics;
+      // Quiet, slow or monotone speech reads as low energy; fast speech as
+      // high; an unsteady voice or a high zero-crossing rate as tension.
+      const slow = m.speakingRate > 0 && m.speakingRate < SLOW_SPEECH_RATE;
+      const fast = m.speakingRate > FAST_SPEECH_RATE;
+      const monotone = m.f0RangeHz !== null && m.f0RangeHz < NARROW_PITCH_RANGE_HZ;
+      if (m.rms < 0.03 || (slow && monotone)) voiceShifts.energy = -0.2;
+      else if (m.rms > 0.15 || fast) voiceShifts.energy = 0.2;
+      if (m.zcr > BREATHY_ZCR || isUnsteadyVoice(m)) voiceShifts.reality = 0.15;
+      if (m.pauseRatio > LONG_PAUSE_RATIO) voiceShifts.temporal = -0.1;
+      voice_analysis = {
+        pitch: describePitch(m),
+        stability: describeStability(m),
+        speed: describeSpeed(m),
+        note: m.rms < 0.03 || (slow && monotone)
+          ? "Your voice sounded quiet and low in energy."
+          : m.rms > 0.15 || fast ? "Your voice sounded loud and energized." : "Your voice sounded fairly even."
+      };
+    }
+
+    const suggested: AxisState = { ...state };
+    AXES.forEach(axis => {
+      suggested[axis] = roundAxis(clampAxis(state[axis] + journalShifts[axis] + voiceShifts[axis]));
+    });
+    suggested.summary = describeState(suggested);
+
+    // The sliders always count; the other sources count by how much evidence they carried.
+    const contributions: ModalityContribution[] = [
+      { source: 'sliders', weight: OFFLINE_SLIDER_WEIGHT, axis_shifts: { ...ZERO_SHIFTS }, note: "Your own settings are the starting point." }
+    ];
+    if (audio) {
+      const measured = audio.metrics?.f0MeanHz != null;
+      contributions.push({ source: 'voice', weight: audio.metrics ? (measured ? 0.8 : 0.5) : 0, axis_shifts: voiceShifts, note: describeContribution('voice', voiceShifts) });
+    }
+    if (journalText || journalEntries.length > 0) {
+      contributions.push({ source: 'journal', weight: Math.min(1, cues.length / 3), axis_shifts: journalShifts, note: describeContribution('journal', journalShifts) });
+    }
+    const totalWeight = contributions.reduce((sum, c) => sum + c.weight, 0);
+    contributions.forEach(c => { c.weight = Math.round(c.weight / totalWeight * 100) / 100; });
+
+    // Each source that moved an axis adds to the confidence in it; an axis
+    // nothing pointed at keeps your value with moderate confidence.
+    const axis_insights = {} as Record<AxisKey, AxisInsight>;
+    AXES.forEach(axis => {
+      const movedBy = contributions.filter(c => c.source !== 'sliders' && Math.abs(c.axis_shifts[axis]) >= ISO_EPSILON);
+      axis_insights[axis] = movedBy.length === 0
+        ? { confidence: 0.5, rationale: "Nothing in your input pointed elsewhere, so this stays as you set it." }
+        : {
+            confidence: Math.min(0.9, 0.4 + movedBy.reduce((sum, c) => sum + c.weight, 0)),
+            rationale: movedBy.map(c => `${SOURCE_LABELS[c.source]} moved it ${c.axis_shifts[axis] < 0 ? 'down' : 'up'} by ${Math.abs(c.axis_shifts[axis]).toFixed(2)}`).join('; ') + '.'
+          };
+    });
+
+    const reasoning = cues.length > 0
+      ? `Your words ${cues.slice(0, 4).join(', ')} suggest a ${describeState(suggested)}, so we nudged the matching sliders.${voice_analysis ? ` ${voice_analysis.note}` : ''}`
+      : voice_analysis
+        ? voice_analysis.note + " We adjusted your settings slightly to reflect that."
+        : "We didn't find strong cues, so your settings are kept as they are.";
+
+    return { suggested_state: suggested, reasoning, axis_insights, voice_analysis, contributions, entry_trend: entry_trend.length > 0 ? entry_trend : undefined };
+  },
+
+  async generatePlaylist({ startState, target, goalLabel, genres, excludedGenres, songCount, maxStep, targetMinutes, previousSongs = [], feedbackHistory, catalog }) {
+    const played = new Set(previousSongs.map(trackLabel));
+    const rejected = new Set(feedbackHistory?.rejected ?? []);
+    const accepted = new Set(feedbackHistory?.accepted ?? []);
+    // Only tracks with coordinates can be matched to waypoints offline.
+    const library = (catalog?.length ? catalog : OFFLINE_CATALOG).filter((t): t is PlacedCatalogTrack => !!t.state);
+    const allowed = library.filter(t => !excludedGenres.includes(t.genre) && !played.has(trackLabel(t)) && !rejected.has(trackLabel(t)));
+    const preferred = allowed.filter(t => genres.includes(t.genre));
+    const pool = preferred.length >= songCount ? preferred : [...preferred, ...allowed.filter(t => !genres.includes(t.genre))];
+    if (pool.length === 0) throw new Error("The music library has no placed tracks outside the excluded genres.");
+
+    const waypoints = planWaypoints(startState, target, Math.min(songCount, pool.length), maxStep);
+    const used = new Set<PlacedCatalogTrack>();
+    let prev = startState;
+
+    const songs = waypoints.map((point, i): Song => {
+      // Tracks the listener loved before get a small head start.
+      const score = (t: PlacedCatalogTrack) => stateDistance(t.state, point) - (accepted.has(trackLabel(t)) ? OFFLINE_ACCEPTED_BONUS : 0);
+      const track = pool
+        .filter(t => !used.has(t))
+        .reduce((best, t) => score(t) < score(best) ? t : best);
+      used.add(track);
+
+      const shifts = diffStates(point, prev);
+      const moved = dominantAxis(shifts);
+      const therapeutic_note = i === 0
+        ? previousSongs.length > 0
+          ? `Picks up from your ${describeState(startState)} with a different feel.`
+          : `Matches your ${describeState(startState)} so the journey begins where you are.`
+        : i === waypoints.length - 1
+          ? `Settles the journey closest to your target state.`
+          : `Gently moves ${moved} ${shifts[moved] > 0 ? 'up' : 'down'} by ${Math.abs(shifts[moved]).toFixed(2)} as the next small step.`;
+      prev = point;
+
+      const song: Song = { title: track.title, artist: track.artist, target_state: point, therapeutic_note, color_hex: colorForState(point), axis_shifts: shifts, duration_sec: track.duration_sec };
+      return catalog?.length ? { ...song, catalog_match: "verified" } : song;
+    });
+
+    const totalShift = diffStates(songs[songs.length - 1].target_state, startState);
+    const lengthNote = targetMinutes ? ` over about ${Math.round(totalSeconds(songs) / 60)} of your ${targetMinutes} minutes` : '';
+    return {
+      songs,
+      journey_narrative: `The journey opens in your ${describeState(startState)} and moves in ${songs.length} small steps${lengthNote} towards "${goalLabel}". ${dominantAxis(totalShift)} changes the most, while every song stays within ${maxStep} of the one before it.`,
+      iso_insight: offlineInsightFor(startState),
+      total_shift: totalShift
+    };
+  },
+
+  // Only the bundled tracks have known coordinates offline.
+  async placeTracks(tracks) {
+    return tracks.map((track): TrackPlacement => {
+      const match = findOfflineTrack(track);
+      return match
+        ? { state: trackState(match), duration_sec: match.seconds, note: `A ${GENRE_OPTIONS.find(g => g.id === match.genre)?.label ?? match.genre} track from the offline catalogue.` }
+        : { state: null, note: "Not in the offline catalogue; switch to Gemini to place unfamiliar tracks." };
+    });
+  }
+});
+
+const ENGINE_STORAGE_KEY = "therapytune.engine";
+const DEFAULT_ENGINE: EngineId = "gemini";
+
+const createEngine = (id: EngineId): TherapyEngine =>
+  id === "gemini" ? createGeminiEngine() : createOfflineEngine();
+
+// --- Session History (IndexedDB) ---
+
+const DB_NAME = "therapytune";
+const DB_VERSION = 3;
+const SESSION_STORE = "sessions";
+const CATALOG_STORE = "catalog";
+const CLIENT_STORE = "clients";
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      }
+      if (!db.objectStoreNames.contains(CATALOG_STORE)) db.createObjectStore(CATALOG_STORE);
+      if (!db.objectStoreNames.contains(CLIENT_STORE)) db.createObjectStore(CLIENT_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs a single request against one object store and resolves with its result.
+const withStore = async <T,>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const saveSession = (session: SessionRecord) =>
+  withStore(SESSION_STORE, "readwrite", store => store.put(session));
+
+// Only one person's sessions: a client's, or the user's own when `clientId` is unset.
+// Sessions saved before journey goals existed get the default one.
+const listSessions = async (clientId?: string): Promise<SessionRecord[]> => {
+  const sessions = await withStore<SessionRecord[]>(SESSION_STORE, "readonly", store => store.getAll());
+  return sessions
+    .filter(s => s.clientId === clientId)
+    .map(s => s.goal ? s : { ...s, goal: DEFAULT_GOAL })
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const deleteSession = (id: string) =>
+  withStore(SESSION_STORE, "readwrite", store => store.delete(id));
+
+const FEEDBACK_HISTORY_LIMIT = 10;
+
+// Moves `label` to the front of the list its new rating belongs to; no rating removes it.
+const rateTrack = (history: FeedbackHistory, label: string, feedback: SongFeedback | undefined): FeedbackHistory => {
+  const accepted = history.accepted.filter(l => l !== label);
+  const rejected = history.rejected.filter(l => l !== label);
+  if (feedback === 'good') accepted.unshift(label);
+  else if (feedback) rejected.unshift(label);
+  return { accepted, rejected };
+};
+
+// Sessions saved before ratings were stored separately only have what is left in the playlist.
+const sessionFeedback = (session: SessionRecord): FeedbackHistory =>
+  session.feedback ?? session.playlist.songs.reduce<FeedbackHistory>(
+    (history, song) => song.feedback ? rateTrack(history, trackLabel(song), song.feedback) : history,
+    { accepted: [], rejected: [] });
+
+// Most recent sessions first; a later rating of the same track wins.
+const collectFeedbackHistory = (sources: FeedbackHistory[]): FeedbackHistory => {
+  const seen = new Set<string>();
+  const history: FeedbackHistory = { accepted: [], rejected: [] };
+  sources.forEach(source => {
+    (['accepted', 'rejected'] as const).forEach(key => source[key].forEach(label => {
+      if (!seen.has(label) && history[key].length < FEEDBACK_HISTORY_LIMIT) history[key].push(label);
+    }));
+    [...source.accepted, ...source.rejected].forEach(label => seen.add(label));
+  });
+  return history;
+};
+
+// `current` is the session in progress, whose latest ratings may not be saved yet.
+const loadFeedbackHistory = async (clientId?: string, current?: SessionRecord | null) => {
+  const sessions = await listSessions(clientId).catch(() => [] as SessionRecord[]);
+  const saved = sessions.filter(s => s.id !== current?.id);
+  return collectFeedbackHistory((current ? [current, ...saved] : saved).map(sessionFeedback));
+};
+
+// --- Client Profiles ---
+
+const PRACTITIONER_STORAGE_KEY = "therapytune.practitioner";
+
+const saveClient = (client: ClientProfile) =>
+  withStore(CLIENT_STORE, "readwrite", store => store.put(client));
+
+const listClients = async (): Promise<ClientProfile[]> => {
+  const clients = await withStore<ClientProfile[]>(CLIENT_STORE, "readonly", store => store.getAll());
+  return clients.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Removes the profile and every session recorded for the client.
+const deleteClient = async (id: string) => {
+  const sessions = await listSessions(id);
+  await Promise.all(sessions.map(s => deleteSession(s.id)));
+  await withStore(CLIENT_STORE, "readwrite", store => store.delete(id));
+};
+
+const newClientProfile = (name: string): ClientProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  genres: [],
+  excludedGenres: [],
+  goal: DEFAULT_GOAL,
+  createdAt: Date.now()
+});
+
+// --- Mood Trends ---
+
+const ROLLING_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface MoodCheckIn {
+  date: Date;
+  start: AxisState;
+  accepted: AxisState;
+}
+
+interface MoodTrends {
+  checkIns: MoodCheckIn[];
+  rolling: Record<AxisKey, number[]>; // Rolling mean of the starting state, one value per check-in
+  outsideBand: Record<AxisKey, { share: number; days: number }>;
+  weekday: Record<AxisKey, (number | null)[]>; // Mean starting value per weekday, Sunday first
+}
+
+const mean = (values: number[]) => values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+// Each session is a check-in: where the user started and the state they accepted for the journey.
+const computeMoodTrends = (sessions: SessionRecord[], sinceMs = 0): MoodTrends => {
+  const checkIns = sessions
+    .filter(s => s.createdAt >= sinceMs)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(s => ({ date: new Date(s.createdAt), start: s.startState, accepted: s.finalState }));
+
+  const perAxis = <T,>(build: (axis: AxisKey) => T) =>
+    AXES.reduce((acc, axis) => ({ ...acc, [axis]: build(axis) }), {} as Record<AxisKey, T>);
+
+  const rolling = perAxis(axis => checkIns.map(c => {
+    const windowStart = c.date.getTime() - ROLLING_WINDOW_DAYS * DAY_MS;
+    return roundAxis(mean(checkIns.filter(o => o.date.getTime() > windowStart && o.date <= c.date).map(o => o.start[axis])));
+  }));
+
+  const outsideBand = perAxis(axis => {
+    const outside = checkIns.filter(c => Math.abs(c.start[axis]) > HEALTHY_BAND);
+    return {
+      share: checkIns.length === 0 ? 0 : outside.length / checkIns.length,
+      days: new Set(outside.map(c => c.date.toDateString())).size
+    };
+  });
+
+  const weekday = perAxis(axis => WEEKDAYS.map((_, day) => {
+    const values = checkIns.filter(c => c.date.getDay() === day).map(c => c.start[axis]);
+    return values.length === 0 ? null : roundAxis(mean(values));
+  }));
+
+  return { checkIns, rolling, outsideBand, weekday };
+};
+
+// --- Journey Outcomes ---
+
+type JourneyShape = "fast-start" | "steady" | "slow-build";
+
+const JOURNEY_SHAPES: Record<JourneyShape, { label: string; description: string }> = {
+  'fast-start': { label: 'Fast start', description: 'most of the movement comes in the first half' },
+  'steady': { label: 'Steady', description: 'the movement is spread evenly' },
+  'slow-build': { label: 'Slow build', description: 'most of the movement comes in the second half' }
+};
+
+const OUTCOME_EXAMPLE_LIMIT = 3;
+const OUTCOME_EXAMPLE_SONGS = 8;
+
+const measureOutcome = (start: AxisState, target: AxisState, state: AxisState): JourneyOutcome => ({
+  state,
+  at: Date.now(),
+  distanceBefore: roundAxis(stateDistance(start, target)),
+  distanceAfter: roundAxis(stateDistance(state, target))
+});
+
+// Classified by how much of the distance the journey covers by its middle song.
+const journeyShape = (songs: Song[], start: AxisState, target: AxisState): JourneyShape => {
+  const total = stateDistance(start, target);
+  if (songs.length < 3 || total < ISO_EPSILON) return 'steady';
+  const middle = songs[Math.floor((songs.length - 1) / 2)].target_state;
+  const covered = 1 - stateDistance(middle, target) / total;
+  return covered > 0.65 ? 'fast-start' : covered < 0.35 ? 'slow-build' : 'steady';
+};
+
+// Effectiveness is always judged against HEALTHY_TARGET, whatever goal the session chose.
+const healthyImprovement = (session: SessionRecord) => session.outcome
+  ? roundAxis(stateDistance(session.finalState, HEALTHY_TARGET) - stateDistance(session.outcome.state, HEALTHY_TARGET))
+  : 0;
+
+interface OutcomeGroup {
+  label: string;
+  sessions: number;
+  improvement: number; // Mean move toward HEALTHY_TARGET
+}
+
+interface OutcomeInsights {
+  measured: number;
+  byGenre: OutcomeGroup[];
+  byStart: OutcomeGroup[];
+  byShape: OutcomeGroup[];
+}
+
+const groupOutcomes = (sessions: SessionRecord[], keys: (session: SessionRecord) => string[]): OutcomeGroup[] => {
+  const groups = new Map<string, number[]>();
+  sessions.forEach(session => keys(session).forEach(key => groups.set(key, [...(groups.get(key) ?? []), healthyImprovement(session)])));
+  return [...groups.entries()]
+    .map(([label, values]) => ({ label, sessions: values.length, improvement: roundAxis(mean(values)) }))
+    .sort((a, b) => b.improvement - a.improvement);
+};
+
+const computeOutcomeInsights = (sessions: SessionRecord[]): OutcomeInsights => {
+  const measured = sessions.filter(s => s.outcome);
+  return {
+    measured: measured.length,
+    byGenre: groupOutcomes(measured, s => s.genres.length > 0 ? s.genres.map(id => GENRE_OPTIONS.find(g => g.id === id)?.label ?? id) : ['Any genre']),
+    byStart: groupOutcomes(measured, s => [describeState(s.finalState)]),
+    byShape: groupOutcomes(measured, s => [JOURNEY_SHAPES[journeyShape(s.playlist.songs, s.finalState, s.goal.target)].label])
+  };
+};
+
+// The journeys that moved the listener furthest, as examples for the playlist prompt.
+const collectOutcomeExamples = (sessions: SessionRecord[]): OutcomeExample[] =>
+  sessions
+    .filter(s => healthyImprovement(s) > ISO_EPSILON)
+    .sort((a, b) => healthyImprovement(b) - healthyImprovement(a))
+    .slice(0, OUTCOME_EXAMPLE_LIMIT)
+    .map(s => {
+      const shape = JOURNEY_SHAPES[journeyShape(s.playlist.songs, s.finalState, s.goal.target)];
+      return {
+        startState: { ...s.finalState, summary: undefined },
+        genres: s.genres,
+        shape: `${shape.label.toLowerCase()}: ${shape.description}`,
+        songs: s.playlist.songs.slice(0, OUTCOME_EXAMPLE_SONGS).map(trackLabel),
+        improvement: healthyImprovement(s)
+      };
+    });
+
+const loadOutcomeExamples = async (clientId?: string) =>
+  collectOutcomeExamples(await listSessions(clientId).catch(() => [] as SessionRecord[]));
+
+// --- Journal Import ---
+
+const JOURNAL_FILE_ACCEPT = ".md,.markdown,.txt,.json";
+const JOURNAL_CHUNK_CHARS = 12_000; // Per analysis request; the server accepts up to 20k
+const JOURNAL_ENTRIES_PER_REQUEST = 20;
+const MAX_JOURNAL_REQUESTS = 5; // Leaves room under the server's 10-per-minute limit to generate the playlist
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+const isoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+// Finds a date in a heading: "2024-03-05", "2024/3/5", "March 5, 2024" or "5 March 2024".
+const parseDateText = (text: string): string | null => {
+  const numeric = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (numeric) return isoDate(Number(numeric[1]), Number(numeric[2]), Number(numeric[3]));
+  const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'));
+  if (monthFirst) return isoDate(Number(monthFirst[3]), MONTHS.indexOf(monthFirst[1].toLowerCase()) + 1, Number(monthFirst[2]));
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'i'));
+  if (dayFirst) return isoDate(Number(dayFirst[3]), MONTHS.indexOf(dayFirst[2].toLowerCase()) + 1, Number(dayFirst[1]));
+  return null;
+};
+
+const entryId = (date: string | null, index: number) => `${date ?? 'undated'}-${index}`;
+
+// Reads a front-matter block ("---", key: value lines, "---") starting at
+// `start`. Returns its keys and the index of the closing line, or null.
+const readFrontMatter = (lines: string[], start: number): { fields: Record<string, string>; end: number } | null => {
+  if (lines[start].trim() !== '---') return null;
+  const fields: Record<string, string> = {};
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '---') return i > start + 1 ? { fields, end: i } : null;
+    const field = lines[i].match(/^([\w-]+):\s*(.*)$/);
+    if (!field) return null;
+    fields[field[1].toLowerCase()] = field[2].trim();
+  }
+  return null;
+};
+
+// Quoted YAML scalars are written as JSON strings (see formatSessionMarkdown).
+const readYamlScalar = (value: string) => {
+  if (!value.startsWith('"')) return value;
+  try {
+    return String(JSON.parse(value));
+  } catch {
+    return value;
+  }
+};
+
+// Every heading that carries a date starts a new entry, as does a front-matter
+// block with a `date:` key (saved sessions, Obsidian daily notes). Text before
+// the first one, or a whole file without either, is one undated entry.
+const parseMarkdownJournal = (content: string): JournalEntry[] => {
+  const entries: { date: string | null; title: string; lines: string[] }[] = [{ date: null, title: 'Journal', lines: [] }];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const frontMatter = readFrontMatter(lines, i);
+    const frontMatterDate = frontMatter?.fields.date ? parseDateText(readYamlScalar(frontMatter.fields.date)) : null;
+    if (frontMatter && frontMatterDate) {
+      entries.push({ date: frontMatterDate, title: readYamlScalar(frontMatter.fields.title ?? '') || frontMatterDate, lines: [] });
+      i = frontMatter.end;
+      continue;
+    }
+    const heading = lines[i].match(/^#{1,6}\s+(.*)$/);
+    const date = heading ? parseDateText(heading[1]) : null;
+    if (heading && date) entries.push({ date, title: heading[1].trim(), lines: [] });
+    else entries[entries.length - 1].lines.push(lines[i]);
+  }
+  return entries
+    .map((entry, i) => ({ id: entryId(entry.date, i), date: entry.date, title: entry.title, text: entry.lines.join('\n').trim() }))
+    .filter(entry => entry.text);
+};
+
+// Day One escapes markdown punctuation in its JSON export ("Hello\. world").
+const unescapeDayOne = (text: string) => text.replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1');
+
+const parseDayOneJournal = (data: unknown): JournalEntry[] | null => {
+  if (!isRecord(data) || !Array.isArray(data.entries)) return null;
+  return data.entries
+    .filter(isRecord)
+    .filter(entry => typeof entry.text === 'string' && entry.text.trim())
+    .map((entry, i) => {
+      const text = unescapeDayOne(entry.text as string).trim();
+      const created = readString(entry.creationDate);
+      const date = /^\d{4}-\d{2}-\d{2}/.test(created) ? created.slice(0, 10) : null;
+      const firstLine = text.split('\n')[0].replace(/^#+\s*/, '').trim();
+      return { id: entryId(date, i), date, title: firstLine.slice(0, 80) || 'Untitled', text };
+    });
+};
+
+// Returns null when a .json file isn't a journal export we understand.
+const parseJournalFile = (fileName: string, content: string): JournalEntry[] | null => {
+  if (!fileName.toLowerCase().endsWith('.json')) return parseMarkdownJournal(content);
+  try {
+    return parseDayOneJournal(JSON.parse(content));
+  } catch {
+    return null;
+  }
+};
+
+// Newest first, undated entries last.
+const newestFirst = (entries: JournalEntry[]) =>
+  [...entries].sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''));
+
+// Splits long text at paragraph breaks, cutting mid-paragraph only when one paragraph is itself too long.
+const splitText = (text: string, maxChars: number): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  text.split(/\n{2,}/).forEach(paragraph => {
+    for (let rest = paragraph; rest; rest = rest.slice(maxChars)) {
+      const piece = rest.slice(0, maxChars);
+      if (current && current.length + piece.length + 2 > maxChars) {
+        parts.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  });
+  if (current) parts.push(current);
+  return parts;
+};
+
+// Packs entries into request-sized batches. An entry longer than one batch is
+// split into parts that keep its id, so their states can be averaged back.
+// `reservedChars` is already taken in the first batch (by the typed note).
+const chunkJournalEntries = (entries: JournalEntry[], maxChars = JOURNAL_CHUNK_CHARS, maxEntries = JOURNAL_ENTRIES_PER_REQUEST, reservedChars = 0): JournalEntry[][] => {
+  const pieces = entries.flatMap(entry => {
+    const parts = splitText(entry.text, maxChars);
+    return parts.map((text, i) => parts.length === 1 ? entry : { ...entry, title: `${entry.title} (part ${i + 1}/${parts.length})`, text });
+  });
+  const batches: JournalEntry[][] = [];
+  let batch: JournalEntry[] = [];
+  let size = reservedChars;
+  pieces.forEach(piece => {
+    if ((batch.length > 0 || size > 0) && (size + piece.text.length > maxChars || batch.length >= maxEntries)) {
+      batches.push(batch);
+      batch = [];
+      size = 0;
+    }
+    batch.push(piece);
+    size += piece.text.length;
+  });
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+};
+
+const TYPED_NOTE_ID = "typed-note";
+
+// The typed (or pasted, or uploaded undated) note goes out as `journalText` and
+// counts against the first batch; what doesn't fit follows as undated entries
+// ahead of the imported ones.
+const planJournalRequests = (note: string, entries: JournalEntry[]) => {
+  const [journalText, ...overflow] = note ? splitText(note, JOURNAL_CHUNK_CHARS) : [];
+  const noteParts = overflow.map((text, i): JournalEntry => ({ id: TYPED_NOTE_ID, date: null, title: `Typed note (part ${i + 2}/${overflow.length + 1})`, text }));
+  return {
+    journalText,
+    batches: chunkJournalEntries([...noteParts, ...entries], JOURNAL_CHUNK_CHARS, JOURNAL_ENTRIES_PER_REQUEST, journalText?.length ?? 0)
+  };
+};
+
+// Averages split entries back into one point each, oldest first.
+const mergeEntryTrend = (points: JournalTrendPoint[], entries: JournalEntry[]): JournalTrendPoint[] => {
+  const byId = new Map<string, JournalTrendPoint[]>();
+  points.forEach(point => byId.set(point.entryId, [...(byId.get(point.entryId) ?? []), point]));
+  return newestFirst(entries).reverse().flatMap(entry => {
+    const parts = byId.get(entry.id);
+    if (!parts) return [];
+    const state = {} as AxisState;
+    AXES.forEach(axis => { state[axis] = roundAxis(mean(parts.map(p => p.state[axis]))); });
+    return [{ entryId: entry.id, date: entry.date, title: entry.title, state }];
+  });
+};
+
+// Dated headings that re-import as the same entries.
+const entryHeading = (entry: JournalEntry) =>
+  entry.date && parseDateText(entry.title) !== entry.date ? `${entry.date} — ${entry.title}` : entry.title;
+
+const formatEntriesAsText = (entries: JournalEntry[]) =>
+  entries.map(entry => `## ${entryHeading(entry)}\n\n${entry.text}`).join('\n\n');
+
+// --- Journal Export ---
+
+const DEFAULT_JOURNAL_FILE_NAME = 'therapytune-journal.md';
+
+const formatYamlState = (state: AxisState) =>
+  `{ ${AXES.map(axis => `${axis}: ${roundAxis(state[axis])}`).join(', ')} }`;
+
+const localDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// One session as a journal entry. The front matter carries the states and the
+// heading below it has no date, so the block re-imports as a single entry.
+const formatSessionMarkdown = (session: SessionRecord) => {
+  const genreLabels = session.genres.map(id => GENRE_OPTIONS.find(g => g.id === id)?.label ?? id);
+  const title = `TherapyTune: ${session.goal.label}`;
+  const songs = session.playlist.songs.map((song, i) =>
+    `${i + 1}. **${song.title}** — ${song.artist} (${formatDuration(songSeconds(song))})\n   ${song.therapeutic_note}`);
+  return [
+    '---',
+    `date: ${localDate(session.createdAt)}`,
+    `title: ${JSON.stringify(title)}`,
+    `start: ${formatYamlState(session.startState)}`,
+    `accepted: ${formatYamlState(session.finalState)}`,
+    `target: ${formatYamlState(session.goal.target)}`,
+    `genres: [${genreLabels.map(label => JSON.stringify(label)).join(', ')}]`,
+    '---',
+    '',
+    `### ${session.goal.emoji} ${title}`,
+    '',
+    session.playlist.journey_narrative,
+    '',
+    ...songs,
+    ''
+  ].join('\n');
+};
+
+// Blank lines before the block keep "---" from turning the previous paragraph into a heading.
+const appendToJournal = (content: string, block: string) =>
+  content.trim() ? `${content.trimEnd()}\n\n${block}` : block;
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Playlist Export ---
+
+type ExportFormat = "m3u8" | "xspf" | "csv" | "json";
+
+const JOURNEY_EXPORT_FORMAT = "therapytune-journey";
+const JOURNEY_EXPORT_VERSION = 1;
+
+const EXPORT_FORMATS: { id: ExportFormat; label: string; type: string }[] = [
+  { id: "m3u8", label: "M3U8 playlist", type: "audio/x-mpegurl;charset=utf-8" },
+  { id: "xspf", label: "XSPF playlist", type: "application/xspf+xml;charset=utf-8" },
+  { id: "csv", label: "CSV with axis data", type: "text/csv;charset=utf-8" },
+  { id: "json", label: "Full journey (JSON)", type: "application/json;charset=utf-8" }
+];
+
+// The same search SongCard opens; players that can't resolve it still show title and artist.
+const songSearchUrl = (song: Song) =>
+  `https://www.youtube.com/results?search_query=${encodeURIComponent(`${song.title} ${song.artist}`)}`;
+
+const journeyTitle = (session: SessionRecord) => `TherapyTune: ${session.goal.label} (${localDate(session.createdAt)})`;
+
+const formatM3u8 = (session: SessionRecord) => [
+  '#EXTM3U',
+  `#PLAYLIST:${journeyTitle(session)}`,
+  ...session.playlist.songs.flatMap(song => [
+    '',
+    `#EXTINF:${songSeconds(song)},${song.artist} - ${song.title}`,
+    ...(song.therapeutic_note ? [`# ${song.therapeutic_note.replace(/\s*\n\s*/g, ' ')}`] : []),
+    songSearchUrl(song)
+  ]),
+  ''
+].join('\n');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatXspf = (session: SessionRecord) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+  `  <title>${escapeXml(journeyTitle(session))}</title>`,
+  `  <annotation>${escapeXml(session.playlist.journey_narrative)}</annotation>`,
+  `  <date>${new Date(session.createdAt).toISOString()}</date>`,
+  '  <trackList>',
+  ...session.playlist.songs.map(song => [
+    '    <track>',
+    `      <title>${escapeXml(song.title)}</title>`,
+    `      <creator>${escapeXml(song.artist)}</creator>`,
+    `      <annotation>${escapeXml(song.therapeutic_note)}</annotation>`,
+    `      <duration>${songSeconds(song) * 1000}</duration>`,
+    `      <info>${escapeXml(songSearchUrl(song))}</info>`,
+    '    </track>'
+  ].join('\n')),
+  '  </trackList>',
+  '</playlist>',
+  ''
+].join('\n');
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatCsv = (session: SessionRecord) => {
+  const header = ['position', 'title', 'artist', 'duration_sec', ...AXES.map(axis => `target_${axis}`), ...AXES.map(axis => `shift_${axis}`), 'therapeutic_note'];
+  const rows = session.playlist.songs.map((song, i) => [
+    i + 1, song.title, song.artist, songSeconds(song),
+    ...AXES.map(axis => song.target_state[axis]),
+    ...AXES.map(axis => song.axis_shifts[axis]),
+    song.therapeutic_note
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// The whole session record, so importing it brings back the same PLAYLIST view.
+const formatJourneyJson = (session: SessionRecord) =>
+  JSON.stringify({ format: JOURNEY_EXPORT_FORMAT, version: JOURNEY_EXPORT_VERSION, exportedAt: new Date().toISOString(), session }, null, 2);
+
+const exportJourney = (session: SessionRecord, format: ExportFormat) => {
+  const content = { m3u8: formatM3u8, xspf: formatXspf, csv: formatCsv, json: formatJourneyJson }[format](session);
+  const type = EXPORT_FORMATS.find(f => f.id === format)!.type;
+  const baseName = `therapytune-${localDate(session.createdAt)}-${session.goal.label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+  downloadFile(`${baseName}.${format}`, content, type);
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const SONG_FEEDBACK: SongFeedback[] = ['heavy', 'meh', 'good'];
+const CATALOG_MATCHES: CatalogMatch[] = ['verified', 'substituted', 'unverified'];
+
+// Exported shifts and ratings are kept where they are well-formed, so the
+// restored view matches the original; anything else is rebuilt from the states.
+const readExportedSong = (song: Song, raw: unknown, field: string): Song => {
+  if (!isRecord(raw)) return song;
+  const restored: Song = { ...song, axis_shifts: normalizeAxisState(raw.axis_shifts, `${field}.axis_shifts`, song.axis_shifts) };
+  if (SONG_FEEDBACK.includes(raw.feedback as SongFeedback)) restored.feedback = raw.feedback as SongFeedback;
+  if (CATALOG_MATCHES.includes(raw.catalog_match as CatalogMatch)) restored.catalog_match = raw.catalog_match as CatalogMatch;
+  if (typeof raw.replaced === 'string') restored.replaced = raw.replaced;
+  return restored;
+};
+
+// Returns null unless the file is a journey exported above. States and songs
+// come back normalised, so a hand-edited file can't break the PLAYLIST view.
+const parseJourneyExport = (content: string): SessionRecord | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || raw.format !== JOURNEY_EXPORT_FORMAT || !isRecord(raw.session)) return null;
+  const session = raw.session as unknown as SessionRecord;
+  if (typeof session.id !== 'string' || typeof session.createdAt !== 'number' || !isRecord(session.goal) || typeof session.goal.label !== 'string') return null;
+  if (!isStringArray(session.genres) || !isStringArray(session.excludedGenres)) return null;
+  try {
+    const finalState = normalizeAxisState(session.finalState, 'finalState');
+    const playlist = validatePlaylistResponse(session.playlist, finalState);
+    const rawSongs = (session.playlist as unknown as { songs: unknown[] }).songs;
+    const songs = playlist.songs.map((song, i) => readExportedSong(song, rawSongs[i], `songs[${i}]`));
+    return {
+      ...session,
+      startState: normalizeAxisState(session.startState, 'startState'),
+      finalState,
+      goal: { ...session.goal, target: normalizeAxisState(session.goal.target, 'goal.target') },
+      playlist: { ...playlist, songs, total_shift: normalizeAxisState(session.playlist.total_shift, 'total_shift', playlist.total_shift) }
+    };
+  } catch {
+    return null;
+  }
+};
+
+// --- Share Links ---
+
+const SHARE_HASH_PREFIX = "#journey=";
+const SHARE_LINK_VERSION = 1;
+// Older browsers can't compress the link, so they don't offer sharing.
+const CAN_SHARE_LINKS = typeof CompressionStream !== 'undefined';
+
+// What a share link carries: enough for a read-only PLAYLIST view without an AI call.
+interface SharedJourney {
+  start: AxisState;
+  target: AxisState;
+  goalLabel: string;
+  genres: string[];
+  playlist: PlaylistResponse;
+}
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+// Only what the view shows is kept; axis shifts and the total are recomputed when the link is opened.
+const encodeSharedJourney = async ({ start, target, goalLabel, genres, playlist }: SharedJourney) => {
+  const payload = {
+    v: SHARE_LINK_VERSION,
+    start: { ...start, summary: undefined },
+    target: { ...target, summary: undefined },
+    goalLabel,
+    genres,
+    journey_narrative: playlist.journey_narrative,
+    iso_insight: playlist.iso_insight,
+    songs: playlist.songs.map(song => ({
+      title: song.title,
+      artist: song.artist,
+      target_state: { ...song.target_state, summary: undefined },
+      therapeutic_note: song.therapeutic_note,
+      color_hex: song.color_hex,
+      duration_sec: song.duration_sec
+    }))
+  };
+  const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream("deflate-raw"));
+  return SHARE_HASH_PREFIX + toBase64Url(compressed);
+};
+
+const decodeSharedJourney = async (hash: string): Promise<SharedJourney | null> => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)), new DecompressionStream("deflate-raw"));
+    const raw: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    if (!isRecord(raw) || raw.v !== SHARE_LINK_VERSION || typeof raw.goalLabel !== 'string' || !isStringArray(raw.genres)) return null;
+    const start = normalizeAxisState(raw.start, 'start');
+    return {
+      start,
+      target: normalizeAxisState(raw.target, 'target'),
+      goalLabel: raw.goalLabel,
+      genres: raw.genres,
+      playlist: validatePlaylistResponse(raw, start)
+    };
+  } catch {
+    return null;
+  }
+};
+
+// --- Session Report ---
+
+// The report carries its own styles so the print view and the downloaded file look the same.
+// Charts keep their dark tiles in print; everything else is ink on white.
+const REPORT_CSS = `
+.tt-report { max-width: 960px; margin: 0 auto 80px; padding: 40px; background: #fff; color: #0f172a; font-family: Inter, system-ui, sans-serif; font-size: 13px; line-height: 1.5; border-radius: 16px; }
+.tt-report h1 { font-family: Outfit, Inter, sans-serif; font-size: 26px; margin: 0 0 4px; }
+.tt-report h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: #475569; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin: 28px 0 12px; }
+.tt-report p { margin: 0 0 8px; }
+.tt-meta { color: #64748b; font-size: 12px; }
+.tt-grid { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 12px; }
+.tt-chart { background: #0f172a; color: #e2e8f0; border-radius: 10px; padding: 12px; break-inside: avoid; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.tt-chart h3 { font-size: 11px; text-transform: uppercase; letter-spacing: 0.08em; color: #94a3b8; margin: 0 0 6px; }
+.tt-chart-image { display: block; width: 100%; height: auto; }
+.tt-insight { border-left: 4px solid #2dd4bf; background: #f0fdfa; padding: 10px 14px; margin-bottom: 10px; break-inside: avoid; }
+.tt-insight h3 { font-size: 14px; margin: 0 0 4px; }
+.tt-citation { font-style: italic; color: #64748b; font-size: 11px; }
+.tt-table { width: 100%; border-collapse: collapse; font-size: 12px; }
+.tt-table th { text-align: left; color: #475569; font-weight: 600; border-bottom: 2px solid #e2e8f0; padding: 6px 8px; }
+.tt-table td { border-bottom: 1px solid #f1f5f9; padding: 6px 8px; vertical-align: top; }
+.tt-table tr { break-inside: avoid; }
+.tt-shifts { font-family: ui-monospace, monospace; font-size: 11px; color: #475569; white-space: nowrap; }
+.tt-swatch { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 6px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.tt-facts { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 8px 24px; margin: 0; }
+.tt-facts dt { color: #64748b; font-size: 11px; }
+.tt-facts dd { margin: 0; }
+.tt-notes { white-space: pre-wrap; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px 14px; }
+.tt-disclaimer { margin-top: 32px; padding-top: 12px; border-top: 1px solid #e2e8f0; font-size: 11px; color: #64748b; }
+body.tt-report-page { margin: 0; padding: 24px; background: #f1f5f9; }
+@media print {
+  @page { margin: 14mm; }
+  body { background: #fff !important; }
+  body * { visibility: hidden; }
+  main { position: static !important; display: block !important; min-height: 0 !important; overflow: visible !important; padding: 0 !important; }
+  .tt-report, .tt-report * { visibility: visible; }
+  .tt-report { position: absolute; left: 0; top: 0; width: 100%; max-width: none; margin: 0; padding: 0; border-radius: 0; }
+  body.tt-report-page { padding: 0; }
+}
+`;
+
+const formatShifts = (shifts: AxisState) =>
+  AXES.map(axis => `${axis.slice(0, 3)} ${shifts[axis] > 0 ? '+' : ''}${shifts[axis].toFixed(2)}`).join(' · ');
+
+const reportFileName = (session: SessionRecord) => `therapytune-report-${localDate(session.createdAt)}.html`;
+
+// A self-contained copy of the rendered report: canvases become PNG images and
+// the styles are inlined, so the file opens anywhere without the app.
+const buildStandaloneReport = (report: HTMLElement, title: string) => {
+  const copy = report.cloneNode(true) as HTMLElement;
+  const canvases = report.querySelectorAll('canvas');
+  copy.querySelectorAll('canvas').forEach((canvas, i) => {
+    const image = document.createElement('img');
+    image.src = canvases[i].toDataURL('image/png');
+    image.className = 'tt-chart-image';
+    canvas.replaceWith(image);
+  });
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="UTF-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    `<title>${escapeXml(title)}</title>`,
+    `<style>${REPORT_CSS}</style>`,
+    '</head>',
+    '<body class="tt-report-page">',
+    copy.outerHTML,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+};
+
+// --- Playlist Import ---
+
+const PLAYLIST_FILE_ACCEPT = ".m3u,.m3u8,.csv,.txt";
+const MAX_IMPORTED_TRACKS = 100; // Matches the server's per-request limit
+
+// Splits one CSV line, honouring quoted fields and doubled quotes.
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { fields.push(field.trim()); field = ''; }
+    else field += ch;
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+// "Artist - Title" (players, our M3U export), "Title — Artist" (our own
+// labels) and "Title by Artist" are all common in hand-written lists.
+const parseTrackLine = (line: string): ImportedTrack | null => {
+  const text = line.replace(/^\s*\d+[.)]?\s+/, '').trim();
+  if (!text) return null;
+  const emDash = text.split(/\s+—\s+/);
+  if (emDash.length === 2) return { title: emDash[0], artist: emDash[1] };
+  const hyphen = text.split(/\s+[-–]\s+/);
+  if (hyphen.length >= 2) return { title: hyphen.slice(1).join(' - '), artist: hyphen[0] };
+  const by = text.match(/^(.+?)\s+by\s+(.+)$/i);
+  if (by) return { title: by[1], artist: by[2] };
+  return { title: text, artist: '' };
+};
+
+// Location lines may be URL-encoded ("My%20Song.mp3") or plain names that contain "%".
+const safeDecodeUri = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+const parseM3u = (content: string): ImportedTrack[] => {
+  const tracks: ImportedTrack[] = [];
+  let info: { duration?: number; label: string } | null = null;
+  content.split(/\r?\n/).map(line => line.trim()).forEach(line => {
+    const extinf = line.match(/^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i);
+    if (extinf) {
+      const duration = Number(extinf[1]);
+      info = { duration: duration > 0 ? Math.round(duration) : undefined, label: extinf[2].trim() };
+      return;
+    }
+    if (!line || line.startsWith('#')) return;
+    // A location line closes the entry; without #EXTINF the file name is all we have.
+    const label = info?.label || safeDecodeUri(line.split(/[\\/]/).pop() ?? '').replace(/\.[a-z0-9]{2,4}$/i, '');
+    const track = parseTrackLine(label);
+    if (track) tracks.push(info?.duration ? { ...track, duration_sec: info.duration } : track);
+    info = null;
+  });
+  return tracks;
+};
+
+const CSV_TITLE_COLUMNS = ['title', 'track name', 'track', 'name', 'song'];
+const CSV_ARTIST_COLUMNS = ['artist', 'artist name(s)', 'artist name', 'artists', 'creator'];
+
+// Reads our own CSV export, Spotify-style exports ("Track Name", "Duration (ms)")
+// and header-less "title,artist" files.
+const parseCsvPlaylist = (content: string): ImportedTrack[] => {
+  const rows = content.split(/\r?\n/).filter(line => line.trim()).map(parseCsvLine);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const column = (names: string[]) => names.map(name => header.indexOf(name)).find(i => i >= 0) ?? -1;
+  const titleCol = column(CSV_TITLE_COLUMNS);
+  const artistCol = column(CSV_ARTIST_COLUMNS);
+  const hasHeader = titleCol >= 0;
+  const secondsCol = column(['duration_sec', 'duration', 'seconds']);
+  const msCol = column(['duration (ms)', 'duration_ms']);
+  return rows.slice(hasHeader ? 1 : 0).flatMap(row => {
+    const title = row[hasHeader ? titleCol : 0] ?? '';
+    if (!title) return [];
+    const artist = row[hasHeader ? artistCol : 1] ?? '';
+    const seconds = secondsCol >= 0 ? Number(row[secondsCol]) : msCol >= 0 ? Number(row[msCol]) / 1000 : NaN;
+    return [{ title, artist, ...(seconds > 0 ? { duration_sec: Math.round(seconds) } : {}) }];
+  });
+};
+
+const parsePlaylistFile = (fileName: string, content: string): ImportedTrack[] => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.m3u') || name.endsWith('.m3u8') || content.trimStart().startsWith('#EXTM3U')) return parseM3u(content);
+  if (name.endsWith('.csv')) return parseCsvPlaylist(content);
+  return content.split(/\r?\n/).flatMap(line => parseTrackLine(line) ?? []);
+};
+
+// A move between two songs that the ISO check would accept, and that ends
+// closer to the target so the journey can never loop back on itself.
+const isIsoStep = (from: AxisState, to: AxisState, target: AxisState, maxStep: number) =>
+  stateDistance(to, target) < stateDistance(from, target) - ISO_EPSILON &&
+  AXES.every(axis =>
+    Math.abs(to[axis] - from[axis]) <= maxStep + ISO_EPSILON &&
+    Math.abs(to[axis] - target[axis]) <= Math.abs(from[axis] - target[axis]) + ISO_DIRECTION_SLACK);
+
+const maxAxisGap = (a: AxisState, b: AxisState) => Math.max(...AXES.map(axis => Math.abs(a[axis] - b[axis])));
+
+// Picks the ordered subset of placed tracks that ends closest to the target,
+// preferring longer journeys on a tie. The first song is one within the ISO
+// start tolerance, or the nearest track when none is that close.
+const orderIsoJourney = (states: AxisState[], start: AxisState, target: AxisState, maxStep: number): number[] => {
+  const byDistance = states.map((_, i) => i).sort((a, b) => stateDistance(states[a], target) - stateDistance(states[b], target));
+  const best: { end: number; length: number; next: number }[] = [];
+  const better = (a: { end: number; length: number }, b: { end: number; length: number }) =>
+    a.end < b.end - ISO_EPSILON || (Math.abs(a.end - b.end) <= ISO_EPSILON && a.length > b.length);
+  byDistance.forEach((i, rank) => {
+    best[i] = { end: stateDistance(states[i], target), length: 1, next: -1 };
+    byDistance.slice(0, rank).forEach(j => {
+      if (!isIsoStep(states[i], states[j], target, maxStep)) return;
+      const candidate = { end: best[j].end, length: best[j].length + 1, next: j };
+      if (better(candidate, best[i])) best[i] = candidate;
+    });
+  });
+
+  if (states.length === 0) return [];
+  const nearest = Math.min(...states.map(state => maxAxisGap(state, start)));
+  const openers = states.map((_, i) => i).filter(i => maxAxisGap(states[i], start) <= Math.max(ISO_START_TOLERANCE + ISO_EPSILON, nearest));
+  const first = openers.reduce((a, b) => better(best[b], best[a]) ? b : a);
+  const path: number[] = [];
+  for (let i = first; i >= 0; i = best[i].next) path.push(i);
+  return path;
+};
+
+// Why a placed track didn't make the cut, judged against the chosen journey.
+const dropReason = (state: AxisState, chosen: AxisState[], start: AxisState, target: AxisState, maxStep: number, goalLabel: string) => {
+  if (stateDistance(state, target) >= stateDistance(start, target) - ISO_EPSILON && maxAxisGap(state, start) > ISO_START_TOLERANCE + ISO_EPSILON) {
+    return `Sits further from "${goalLabel}" than where you are now.`;
+  }
+  if (journeyProgress(state, start, target) > 1 + ISO_DIRECTION_SLACK) return `Goes past "${goalLabel}".`;
+  if (chosen.some(prev => isIsoStep(prev, state, target, maxStep))) {
+    return "Fits the path, but a song closer to your target was a better next step.";
+  }
+  return `No song in the journey leads into it within the ${maxStep.toFixed(2)} step limit.`;
+};
+
+// Places the imported tracks, keeps an ISO-compliant ordered subset and
+// explains every track that was left out.
+const buildImportedJourney = (
+  tracks: ImportedTrack[],
+  placements: TrackPlacement[],
+  { start, target, goalLabel, maxStep, fileName }: { start: AxisState; target: AxisState; goalLabel: string; maxStep: number; fileName: string }
+): { playlist: PlaylistResponse; dropped: DroppedTrack[] } => {
+  const dropped: DroppedTrack[] = [];
+  const seen = new Set<string>();
+  const placed: { track: ImportedTrack; placement: TrackPlacement; state: AxisState }[] = [];
+  tracks.forEach((track, i) => {
+    const key = `${normalizeTrackName(track.title)}|${normalizeTrackName(track.artist)}`;
+    const placement = placements[i];
+    if (seen.has(key)) dropped.push({ ...track, reason: "Listed more than once." });
+    else if (!placement?.state) dropped.push({ ...track, reason: placement?.note || "Couldn't be placed on the axes." });
+    else placed.push({ track, placement, state: placement.state });
+    seen.add(key);
+  });
+  if (placed.length === 0) throw new Error("None of the tracks could be placed on the axes.");
+
+  const path = orderIsoJourney(placed.map(p => p.state), start, target, maxStep);
+  const chosen = path.map(i => placed[i].state);
+  placed.forEach((p, i) => {
+    if (!path.includes(i)) dropped.push({ ...p.track, reason: dropReason(p.state, [start, ...chosen], start, target, maxStep, goalLabel) });
+  });
+
+  let prev = start;
+  const songs = path.map((index, i): Song => {
+    const { track, placement, state } = placed[index];
+    const shifts = diffStates(state, prev);
+    const moved = dominantAxis(shifts);
+    const position = i === 0
+      ? `Opens near your ${describeState(start)}.`
+      : `Moves ${moved} ${shifts[moved] > 0 ? 'up' : 'down'} by ${Math.abs(shifts[moved]).toFixed(2)}.`;
+    prev = state;
+    return {
+      title: track.title,
+      artist: track.artist || 'Unknown artist',
+      target_state: state,
+      therapeutic_note: `${position} ${placement.note}`.trim(),
+      color_hex: colorForState(state),
+      axis_shifts: shifts,
+      duration_sec: track.duration_sec ?? placement.duration_sec
+    };
+  });
+
+  const totalShift = diffStates(chosen[chosen.length - 1], start);
+  const reached = maxAxisGap(chosen[chosen.length - 1], target) <= ISO_START_TOLERANCE + ISO_EPSILON;
+  return {
+    playlist: {
+      songs,
+      journey_narrative: `Built from ${songs.length} of the ${tracks.length} tracks in ${fileName}, opening in your ${describeState(start)} and stepping towards "${goalLabel}". ` +
+        (reached
+          ? `The last song lands on your target.`
+          : `Your playlist doesn't reach the target in small enough steps, so the journey stops at the closest song it can.`),
+      iso_insight: offlineInsightFor(start),
+      total_shift: totalShift
+    },
+    dropped
+  };
+};
+
+// --- Music Catalog ---
+
+type PlacedCatalogTrack = CatalogTrack & { state: AxisState };
+
+const CATALOG_FILE_ACCEPT = ".json,.csv";
+const CATALOG_KEY = "library"; // The catalog store holds a single library
+const MAX_PROMPT_CATALOG_TRACKS = 300; // Matches the server's per-request limit
+const TITLE_MATCH_THRESHOLD = 0.8;
+const ARTIST_MATCH_THRESHOLD = 0.5;
+const CATALOG_GENRE_BONUS = 0.2; // Preferred-genre tracks count as this much closer when trimming the catalog
+
+// Maps a library's genre label onto a GENRE_OPTIONS id ("Hip Hop" → hiphop,
+// "indie rock" → indie); labels that match nothing are kept, lower-cased.
+const catalogGenre = (raw: string) => {
+  const squashed = raw.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const words = raw.toLowerCase().split(/[^a-z0-9&]+/).filter(Boolean);
+  const option = GENRE_OPTIONS.find(g => g.id === squashed || g.label.toLowerCase().replace(/[^a-z0-9]/g, '') === squashed)
+    ?? GENRE_OPTIONS.find(g => words.includes(g.id) || g.label.toLowerCase().split('/').some(part => part.replace(/[^a-z0-9]/g, '') === squashed));
+  return option?.id ?? raw.trim().toLowerCase();
+};
+
+const unitValue = (value: unknown) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+};
+
+// A rough placement from audio features. Only energy, repetition and hedonic
+// can be read from them; reality and temporal stay neutral.
+const featuresToState = (f: CatalogAudioFeatures): AxisState | undefined => {
+  if (f.energy === undefined && f.valence === undefined && f.tempo === undefined) return undefined;
+  const tempoAxis = f.tempo !== undefined ? Math.max(-1, Math.min(1, (f.tempo - 120) / 60)) : undefined;
+  const energyAxis = f.energy !== undefined ? f.energy * 2 - 1 : undefined;
+  const energyParts = [energyAxis, tempoAxis].filter((v): v is number => v !== undefined);
+  const energy = energyParts.length > 0 ? mean(energyParts) : 0;
+  return {
+    energy: roundAxis(clampAxis(energy)),
+    reality: 0,
+    temporal: 0,
+    repetition: roundAxis(clampAxis(((f.danceability ?? 0.5) - 0.5) * 1.2)),
+    hedonic: roundAxis(clampAxis(((f.energy ?? 0.5) - 0.5) + Math.abs((f.valence ?? 0.5) - 0.5)))
+  };
+};
+
+// Accepts our own field names and the common export spellings of them.
+const readCatalogTrack = (raw: Record<string, unknown>): CatalogTrack | null => {
+  const pick = (...keys: string[]) => keys.map(key => raw[key]).find(value => value !== undefined && value !== '');
+  const title = readString(pick('title', 'name', 'track', 'track name'));
+  if (!title) return null;
+  const ms = unitValue(pick('duration_ms', 'duration (ms)'));
+  const seconds = unitValue(pick('duration_sec', 'duration', 'seconds')) ?? (ms !== undefined ? ms / 1000 : undefined);
+
+  let state: AxisState | undefined;
+  const coordinates = isRecord(raw.state) ? raw.state : isRecord(raw.axes) ? raw.axes : null;
+  if (coordinates) {
+    try {
+      state = normalizeAxisState(coordinates, 'state');
+    } catch {
+      state = undefined;
+    }
+  } else if (AXES.every(axis => unitValue(raw[`axis_${axis}`] ?? raw[`target_${axis}`]) !== undefined)) {
+    state = AXES.reduce((s, axis) => ({ ...s, [axis]: roundAxis(clampAxis(unitValue(raw[`axis_${axis}`] ?? raw[`target_${axis}`])!)) }), {} as AxisState);
+  }
+
+  const source = isRecord(raw.features) ? raw.features : raw;
+  const features: CatalogAudioFeatures = {};
+  (['energy', 'valence', 'tempo', 'danceability', 'acousticness'] as const).forEach(key => {
+    const value = unitValue(source[key]);
+    if (value !== undefined) features[key] = value;
+  });
+  const hasFeatures = Object.keys(features).length > 0;
+
+  return {
+    title,
+    artist: readString(pick('artist', 'artists', 'artist name(s)', 'artist name', 'creator')),
+    genre: catalogGenre(readString(pick('genre', 'genres')).split(',')[0] ?? ''),
+    duration_sec: readDuration(seconds),
+    state: state ?? (hasFeatures ? featuresToState(features) : undefined),
+    ...(hasFeatures ? { features } : {})
+  };
+};
+
+// JSON: an array of tracks or { tracks: [...] }. CSV: one track per row with a header.
+// Returns null when the file holds no tracks we can read.
+const parseCatalogFile = (fileName: string, content: string): CatalogTrack[] | null => {
+  let records: Record<string, unknown>[];
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const rows = content.split(/\r?\n/).filter(line => line.trim()).map(parseCsvLine);
+    const header = (rows[0] ?? []).map(cell => cell.toLowerCase());
+    records = rows.slice(1).map(row => Object.fromEntries(header.map((key, i) => [key, row[i] ?? ''])));
+  } else {
+    try {
+      const data: unknown = JSON.parse(content);
+      const list = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.tracks) ? data.tracks : [];
+      records = list.filter(isRecord).map(item => Object.fromEntries(Object.entries(item).map(([key, value]) => [key.toLowerCase(), value])));
+    } catch {
+      return null;
+    }
+  }
+  const tracks = records.map(readCatalogTrack).filter((track): track is CatalogTrack => track !== null);
+  return tracks.length > 0 ? tracks : null;
+};
+
+const saveCatalog = (catalog: MusicCatalog) =>
+  withStore(CATALOG_STORE, "readwrite", store => store.put(catalog, CATALOG_KEY));
+
+const loadCatalog = () =>
+  withStore<MusicCatalog | undefined>(CATALOG_STORE, "readonly", store => store.get(CATALOG_KEY));
+
+const deleteCatalog = () =>
+  withStore(CATALOG_STORE, "readwrite", store => store.delete(CATALOG_KEY));
+
+// Dice coefficient over character pairs: 1 for identical names, robust to
+// small spelling differences and word order.
+const nameSimilarity = (a: string, b: string) => {
+  const x = normalizeTrackName(a);
+  const y = normalizeTrackName(b);
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) pairs.set(x.slice(i, i + 2), (pairs.get(x.slice(i, i + 2)) ?? 0) + 1);
+  let shared = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const count = pairs.get(y.slice(i, i + 2)) ?? 0;
+    if (count > 0) {
+      shared++;
+      pairs.set(y.slice(i, i + 2), count - 1);
+    }
+  }
+  return (2 * shared) / (x.length + y.length - 2);
+};
+
+const findCatalogTrack = <T extends { title: string; artist: string },>(song: { title: string; artist: string }, catalog: T[]): T | null => {
+  let best: T | null = null;
+  let bestScore = 0;
+  for (const track of catalog) {
+    const title = nameSimilarity(song.title, track.title);
+    if (title < TITLE_MATCH_THRESHOLD) continue;
+    const artist = track.artist && song.artist ? nameSimilarity(song.artist, track.artist) : 1;
+    if (artist < ARTIST_MATCH_THRESHOLD) continue;
+    const score = title * 0.7 + artist * 0.3;
+    if (score > bestScore) {
+      best = track;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Songs found in the library take its spelling and duration. The rest are
+// swapped for the unused library track nearest their waypoint, or left
+// unverified when no placed track is left. A substitute brings its own state,
+// so the shifts are recomputed and the caller's ISO check sees where it really sits.
+const verifyAgainstCatalog = (songs: Song[], catalog: CatalogTrack[], { startState, previousSongs = [], feedbackHistory }: Pick<PlaylistRequest, 'startState' | 'previousSongs' | 'feedbackHistory'>): Song[] => {
+  const rejected = new Set(feedbackHistory?.rejected ?? []);
+  const used = new Set<CatalogTrack>();
+  previousSongs.forEach(song => {
+    const match = findCatalogTrack(song, catalog);
+    if (match) used.add(match);
+  });
+  const fromTrack = (song: Song, track: CatalogTrack): Song => ({ ...song, title: track.title, artist: track.artist, duration_sec: track.duration_sec });
+
+  const matches = songs.map(song => {
+    const match = findCatalogTrack(song, catalog);
+    if (!match || used.has(match)) return null;
+    used.add(match);
+    return match;
+  });
+  const verified = songs.map((song, i): Song => {
+    const match = matches[i];
+    if (match) return { ...fromTrack(song, match), catalog_match: "verified" };
+    const substitute = catalog
+      .filter((t): t is PlacedCatalogTrack => !!t.state && !used.has(t) && !rejected.has(trackLabel(t)))
+      .reduce<PlacedCatalogTrack | null>((best, t) => !best || stateDistance(t.state, song.target_state) < stateDistance(best.state, song.target_state) ? t : best, null);
+    if (!substitute) return { ...song, catalog_match: "unverified" };
+    used.add(substitute);
+    return {
+      ...fromTrack(song, substitute),
+      target_state: substitute.state,
+      color_hex: colorForState(substitute.state),
+      catalog_match: "substituted",
+      replaced: trackLabel(song)
+    };
+  });
+  let prev = startState;
+  return verified.map(song => {
+    const shifted = { ...song, axis_shifts: diffStates(song.target_state, prev) };
+    prev = song.target_state;
+    return shifted;
+  });
+};
+
+// The part of the library sent with a playlist request: excluded genres are
+// left out and, for large libraries, the tracks nearest the planned path win.
+const catalogForRequest = (tracks: CatalogTrack[], { startState, target, songCount, maxStep, genres, excludedGenres }: Pick<PlaylistRequest, 'startState' | 'target' | 'songCount' | 'maxStep' | 'genres' | 'excludedGenres'>) => {
+  const allowed = tracks.filter(t => !excludedGenres.includes(t.genre));
+  if (allowed.length <= MAX_PROMPT_CATALOG_TRACKS) return allowed;
+  const waypoints = planWaypoints(startState, target, songCount, maxStep);
+  const distance = (t: CatalogTrack) =>
+    (t.state ? Math.min(...waypoints.map(point => stateDistance(t.state!, point))) : Number.MAX_VALUE / 2) -
+    (genres.includes(t.genre) ? CATALOG_GENRE_BONUS : 0);
+  return [...allowed].sort((a, b) => distance(a) - distance(b)).slice(0, MAX_PROMPT_CATALOG_TRACKS);
+};
+
+// --- Audio Hooks & Logic ---
+
+const FEATURE_SAMPLE_RATE = 16000; // Speech pitch and syllable rate need nothing higher
+const FRAME_SEC = 0.04;
+const HOP_SEC = 0.02;
+const PITCH_MIN_HZ = 75;
+const PITCH_MAX_HZ = 400;
+const VOICING_THRESHOLD = 0.5; // Normalised autocorrelation peak needed to call a frame voiced
+const SILENCE_FLOOR = 0.01;
+const CONTOUR_SEGMENTS = 10;
+const MIN_SYLLABLE_GAP_SEC = 0.1;
+const SYLLABLE_DIP = 0.75; // Envelope must fall to this share of the last peak before the next one counts
+const PITCH_FRAMES_PER_SLICE = 200; // Frames searched for pitch before handing the main thread back
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+// Mean absolute change between consecutive values, relative to their mean.
+const relativePerturbation = (values: number[]) => {
+  if (values.length < 2) return null;
+  let diff = 0;
+  for (let i = 1; i < values.length; i++) diff += Math.abs(values[i] - values[i - 1]);
+  return (diff / (values.length - 1)) / mean(values) * 100;
+};
+
+// Best autocorrelation lag within the speech pitch range, or null when the frame isn't voiced.
+const framePitchPeriod = (frame: Float32Array, minLag: number, maxLag: number) => {
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (energy === 0) return null;
+  let bestLag = 0;
+  let bestCorr = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let corr = 0;
+    for (let i = 0; i + lag < frame.length; i++) corr += frame[i] * frame[i + lag];
+    if (corr > bestCorr) {
+      bestCorr = corr;
+      bestLag = lag;
+    }
+  }
+  return bestCorr / energy >= VOICING_THRESHOLD ? bestLag : null;
+};
+
+const SLOW_SPEECH_RATE = 2.5; // Syllables per second
+const FAST_SPEECH_RATE = 5.5;
+const NARROW_PITCH_RANGE_HZ = 30;
+const HIGH_JITTER_PCT = 3;
+const HIGH_SHIMMER_PCT = 15;
+const LONG_PAUSE_RATIO = 0.45;
+// Zero crossings per second above which a voice sounds breathy or tense,
+// stated per sample at FEATURE_SAMPLE_RATE like the measured `zcr`.
+const BREATHY_CROSSINGS_PER_SEC = 7200;
+const BREATHY_ZCR = BREATHY_CROSSINGS_PER_SEC / FEATURE_SAMPLE_RATE;
+
+const isUnsteadyVoice = (m: ClientAudioMetrics) =>
+  (m.jitterPct ?? 0) > HIGH_JITTER_PCT || (m.shimmerPct ?? 0) > HIGH_SHIMMER_PCT;
+
+const describePitch = (m: ClientAudioMetrics) => {
+  if (m.f0MeanHz === null || m.f0RangeHz === null) return "Not enough voiced speech to measure";
+  const range = m.f0RangeHz < NARROW_PITCH_RANGE_HZ ? "monotone" : m.f0RangeHz > 120 ? "very expressive" : "expressive";
+  return `Around ${m.f0MeanHz} Hz, ${range}${m.f0Trend && m.f0Trend !== "flat" ? `, ${m.f0Trend}` : ""}`;
+};
+
+const describeStability = (m: ClientAudioMetrics) => {
+  if (m.jitterPct === null) return m.zcr > BREATHY_ZCR ? "Breathy or tense" : "Steady";
+  return isUnsteadyVoice(m) ? "Wavering" : m.zcr > BREATHY_ZCR ? "Breathy or tense" : "Steady";
+};
+
+const describeSpeed = (m: ClientAudioMetrics) => {
+  const pace = m.speakingRate === 0 ? "Too little speech to tell" : m.speakingRate < SLOW_SPEECH_RATE ? "Slow" : m.speakingRate > FAST_SPEECH_RATE ? "Fast" : "Even";
+  return m.pauseRatio > LONG_PAUSE_RATIO ? `${pace}, with long pauses` : pace;
+};
+
+const pitchTrend = (contour: number[]): PitchContour | null => {
+  if (contour.length < 3) return null;
+  const semitones = contour.map(hz => 12 * Math.log2(hz / contour[0]));
+  const change = semitones[semitones.length - 1] - semitones[0];
+  const spread = Math.max(...semitones) - Math.min(...semitones);
+  if (change > 2) return "rising";
+  if (change < -2) return "falling";
+  return spread > 4 ? "varied" : "flat";
+};
+
+// Mixes a decoded clip down to mono at FEATURE_SAMPLE_RATE. The browser's
+// resampler low-passes first, so high frequencies don't alias into speech.
+const resampleForAnalysis = (buffer: AudioBuffer): Promise<Float32Array> => {
+  const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil(buffer.duration * FEATURE_SAMPLE_RATE)), FEATURE_SAMPLE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  return ctx.startRendering().then(rendered => rendered.getChannelData(0));
+};
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Frame-based features of a mono speech clip at FEATURE_SAMPLE_RATE (see
+// resampleForAnalysis). The pitch search runs in slices so a two-minute
+// upload doesn't freeze the page.
+const extractVoiceFeatures = async (data: Float32Array, rate = FEATURE_SAMPLE_RATE): Promise<ClientAudioMetrics> => {
+  let sumSquares = 0;
+  let zeroCrossings = 0;
+  for (let i = 0; i < data.length; i++) {
+    sumSquares += data[i] * data[i];
+    if (i > 0 && ((data[i] >= 0 && data[i-1] < 0) || (data[i] < 0 && data[i-1] >= 0))) {
+      zeroCrossings++;
+    }
+  }
+  const rms = data.length ? Math.sqrt(sumSquares / data.length) : 0;
+  // Per sample at FEATURE_SAMPLE_RATE whatever `rate` the clip arrived at, so one threshold fits every input.
+  const zcr = data.length ? zeroCrossings / (data.length / rate) / FEATURE_SAMPLE_RATE : 0;
+  const durationSec = data.length / rate;
+
+  const frameLen = Math.round(FRAME_SEC * rate);
+  const hop = Math.round(HOP_SEC * rate);
+  const minLag = Math.floor(rate / PITCH_MAX_HZ);
+  const maxLag = Math.ceil(rate / PITCH_MIN_HZ);
+  const frames: { rms: number; period: number | null }[] = [];
+  for (let start = 0; start + frameLen <= data.length; start += hop) {
+    const frame = data.subarray(start, start + frameLen);
+    let sq = 0;
+    for (let i = 0; i < frame.length; i++) sq += frame[i] * frame[i];
+    frames.push({ rms: Math.sqrt(sq / frame.length), period: null });
+  }
+
+  const sortedRms = frames.map(f => f.rms).sort((a, b) => a - b);
+  const silence = Math.max(SILENCE_FLOOR, percentile(sortedRms, 0.95) * 0.15);
+  const first = frames.findIndex(f => f.rms >= silence);
+  const last = frames.length - 1 - [...frames].reverse().findIndex(f => f.rms >= silence);
+  const empty: ClientAudioMetrics = {
+    rms, zcr, durationSec, f0MeanHz: null, f0RangeHz: null, f0Contour: [], f0Trend: null,
+    jitterPct: null, shimmerPct: null, pauseRatio: 1, speakingRate: 0
+  };
+  if (first === -1) return empty;
+
+  // Leading and trailing silence is just the time it took to press the buttons.
+  const speech = frames.slice(first, last + 1);
+  for (let i = 0; i < speech.length; i++) {
+    if (i > 0 && i % PITCH_FRAMES_PER_SLICE === 0) await yieldToBrowser();
+    if (speech[i].rms < silence) continue;
+    const start = (first + i) * hop;
+    speech[i].period = framePitchPeriod(data.subarray(start, start + frameLen), minLag, maxLag);
+  }
+
+  const voiced = speech.filter(f => f.period !== null);
+  const f0 = voiced.map(f => rate / f.period!);
+  const sortedF0 = [...f0].sort((a, b) => a - b);
+
+  const segmentSize = Math.ceil(speech.length / CONTOUR_SEGMENTS);
+  const f0Contour: number[] = [];
+  for (let s = 0; s < speech.length; s += segmentSize) {
+    const hz = speech.slice(s, s + segmentSize).filter(f => f.period !== null).map(f => rate / f.period!);
+    if (hz.length > 0) f0Contour.push(Math.round(mean(hz)));
+  }
+
+  // Jitter and shimmer only compare neighbouring voiced frames, not across pauses.
+  const runs: { periods: number[]; amps: number[] }[] = [];
+  let run: { periods: number[]; amps: number[] } | null = null;
+  speech.forEach(f => {
+    if (f.period === null) {
+      run = null;
+      return;
+    }
+    if (!run) runs.push(run = { periods: [], amps: [] });
+    run.periods.push(f.period);
+    run.amps.push(f.rms);
+  });
+  const perturbation = (pick: (r: { periods: number[]; amps: number[] }) => number[]) => {
+    const values = runs.map(r => relativePerturbation(pick(r))).filter((v): v is number => v !== null);
+    return values.length > 0 ? mean(values) : null;
+  };
+
+  // Syllable nuclei show up as peaks in the smoothed energy envelope; a peak
+  // only counts once the envelope has dipped since the previous one.
+  const envelope = speech.map((_, i) => mean(speech.slice(Math.max(0, i - 1), i + 2).map(f => f.rms)));
+  const minGap = Math.round(MIN_SYLLABLE_GAP_SEC / HOP_SEC);
+  let peaks = 0;
+  let lastPeak = -minGap;
+  let armed = true;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const e = envelope[i];
+    if (!armed && lastPeak >= 0 && e < envelope[lastPeak] * SYLLABLE_DIP) armed = true;
+    if (armed && e >= silence * 2 && e > envelope[i - 1] && e >= envelope[i + 1] && i - lastPeak >= minGap) {
+      peaks++;
+      lastPeak = i;
+      armed = false;
+    }
+  }
+  const spokenFrames = speech.filter(f => f.rms >= silence).length;
+
+  return {
+    ...empty,
+    f0MeanHz: f0.length > 0 ? Math.round(mean(f0)) : null,
+    f0RangeHz: f0.length > 0 ? Math.round(percentile(sortedF0, 0.9) - percentile(sortedF0, 0.1)) : null,
+    f0Contour,
+    f0Trend: pitchTrend(f0Contour),
+    jitterPct: perturbation(r => r.periods),
+    shimmerPct: perturbation(r => r.amps),
+    pauseRatio: 1 - spokenFrames / speech.length,
+    speakingRate: peaks / (speech.length * HOP_SEC)
+  };
+};
+
+interface RecorderOptions {
+  maxDurationSec: number;
+  silenceStopSec: number; // Stop after this much silence once speech has started
+  minDurationSec: number;
+}
+
+const RECORDING_LIMITS_SEC = [30, 60, 120];
+const DEFAULT_RECORDER_OPTIONS: RecorderOptions = { maxDurationSec: 60, silenceStopSec: 4, minDurationSec: 3 };
+const LIVE_SILENCE_RMS = 0.02; // Live input level below which the room counts as silent
+const MIN_USABLE_RMS = 0.01; // Whole-clip RMS below which there's nothing to analyse
+const RECORDER_TICK_MS = 200;
+
+// Containers Gemini accepts, in order of preference; MediaRecorder support varies by browser.
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+const pickRecordingMimeType = () =>
+  typeof MediaRecorder.isTypeSupported === 'function'
+    ? RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    : undefined;
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+const baseMimeType = (type: string) => type.split(';')[0].trim() || 'audio/webm';
+
+const AUDIO_UPLOAD_ACCEPT = "audio/wav,audio/x-wav,audio/mpeg,audio/mp4,audio/x-m4a,audio/ogg,audio/webm,.wav,.mp3,.m4a,.ogg,.webm";
+const UPLOAD_SAMPLE_RATE = 16000; // Trimmed uploads are re-encoded as 16 kHz mono WAV to keep requests small
+
+const decodeAudioFile = async (file: Blob): Promise<AudioBuffer> => {
+  const audioCtx = new AudioContext();
+  try {
+    return await audioCtx.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    audioCtx.close();
+  }
+};
+
+// Mixes the selection down to mono and resamples it by averaging, which is
+// plenty for speech analysis.
+const trimToMono = (buffer: AudioBuffer, startSec: number, endSec: number, targetRate = UPLOAD_SAMPLE_RATE) => {
+  const from = Math.floor(startSec * buffer.sampleRate);
+  const to = Math.min(buffer.length, Math.floor(endSec * buffer.sampleRate));
+  const ratio = buffer.sampleRate / targetRate;
+  const out = new Float32Array(Math.max(0, Math.floor((to - from) / ratio)));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let i = 0; i < out.length; i++) {
+    const a = from + Math.floor(i * ratio);
+    const b = Math.max(a + 1, from + Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = a; j < b; j++) channels.forEach(ch => { sum += ch[j]; });
+    out[i] = sum / ((b - a) * channels.length);
+  }
+  return out;
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeText = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((v, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, v)) * 0x7fff, true));
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+const useAudioRecorder = (options: RecorderOptions = DEFAULT_RECORDER_OPTIONS) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [metrics, setMetrics] = useState<ClientAudioMetrics | null>(null);
+  const [permissionError, setPermissionError] = useState(false);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [remainingSec, setRemainingSec] = useState(options.maxDurationSec);
+  
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => () => stopRecording(), []);
+
+  const startRecording = async () => {
+    setPermissionError(false);
+    setRecordingError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      const audioCtx = new AudioContext();
+      audioContextRef.current = audioCtx;
+      const source = audioCtx.createMediaStreamSource(stream);
+      const analyser = audioCtx.createAnalyser();
+      analyser.fftSize = 2048;
+      source.connect(analyser);
+      analyserRef.current = analyser;
+
+      const requestedType = pickRecordingMimeType();
+      const mediaRecorder = requestedType ? new MediaRecorder(stream, { mimeType: requestedType }) : new MediaRecorder(stream);
+      mediaRecorderRef.current = mediaRecorder;
+      chunksRef.current = [];
+      const startedAt = Date.now();
+
+      mediaRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+
+      mediaRecorder.onstop = () => {
+        // The recorder may settle on a different container than requested.
+        const type = baseMimeType(mediaRecorder.mimeType || chunksRef.current[0]?.type || requestedType || '');
+        acceptClip(new Blob(chunksRef.current, { type }), (Date.now() - startedAt) / 1000);
+      };
+
+      // Countdown and silence watch share one timer on the live analyser.
+      const levels = new Float32Array(analyser.fftSize);
+      let heardSpeech = false;
+      let silentSince = startedAt;
+      timerRef.current = window.setInterval(() => {
+        const now = Date.now();
+        const { maxDurationSec, silenceStopSec } = optionsRef.current;
+        const remaining = maxDurationSec - (now - startedAt) / 1000;
+        setRemainingSec(Math.max(0, Math.ceil(remaining)));
+
+        analyser.getFloatTimeDomainData(levels);
+        let sq = 0;
+        for (let i = 0; i < levels.length; i++) sq += levels[i] * levels[i];
+        if (Math.sqrt(sq / levels.length) >= LIVE_SILENCE_RMS) {
+          heardSpeech = true;
+          silentSince = now;
+        }
+
+        if (remaining <= 0 || (heardSpeech && now - silentSince >= silenceStopSec * 1000)) stopRecording();
+      }, RECORDER_TICK_MS);
+
+      setRemainingSec(optionsRef.current.maxDurationSec);
+      mediaRecorder.start();
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      setPermissionError(true);
+    }
+  };
+
+  // Recordings and uploaded clips pass the same length and loudness checks.
+  const acceptClip = (blob: Blob, durationSec: number) => {
+    setRecordingError(null);
+    if (durationSec < optionsRef.current.minDurationSec) {
+      setRecordingError(`That was only ${durationSec.toFixed(1)} seconds. Please speak for at least ${optionsRef.current.minDurationSec} seconds.`);
+      return;
+    }
+    analyzeRecordedAudio(blob);
+  };
+
+  // Reads refs only, so it is safe to call from the timer above.
+  const stopRecording = () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (mediaRecorderRef.current?.state === 'recording') {
+      mediaRecorderRef.current.stop();
+      if (streamRef.current) {
+        streamRef.current.getTracks().forEach(track => track.stop());
+      }
+      if (audioContextRef.current) {
+        audioContextRef.current.close();
+      }
+      setIsRecording(false);
+    }
+  };
+
+  const analyzeRecordedAudio = async (blob: Blob) => {
+    try {
+      const arrayBuffer = await blob.arrayBuffer();
+      const audioCtx = new AudioContext();
+      const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
+      audioCtx.close();
+      const features = await extractVoiceFeatures(await resampleForAnalysis(audioBuffer));
+      if (features.rms < MIN_USABLE_RMS) {
+        setRecordingError("We could barely hear you. Try moving closer to the microphone or speaking a little louder.");
+        return;
+      }
+      setMetrics(features);
+    } catch (e) {
+      // Analysis is a bonus; the recording itself can still go to the model.
+      console.error("Client side analysis failed", e);
+      setMetrics(null);
+    }
+    setAudioBlob(blob);
+  };
+
+  return { isRecording, startRecording, stopRecording, acceptClip, audioBlob, analyserRef, metrics, setAudioBlob, permissionError, recordingError, setRecordingError, remainingSec };
+};
+
+// --- Journey Playback ---
+
+const PLAYBACK_FILE_ACCEPT = "audio/*";
+const CROSSFADE_OPTIONS_SEC = [0, 3, 6, 10];
+const DEFAULT_CROSSFADE_SEC = 3;
+const PLAYBACK_TICK_MS = 100;
+
+interface LocalAudioFile {
+  title: string;
+  artist: string;
+  url: string;
+}
+
+// Reads "Artist - Title.mp3" or "03 Title.flac" style file names.
+const localAudioFile = (file: File): LocalAudioFile => {
+  const track = parseTrackLine(file.name.replace(/\.[a-z0-9]{2,5}$/i, '').replace(/_/g, ' ')) ?? { title: file.name, artist: '' };
+  return { title: track.title, artist: track.artist, url: URL.createObjectURL(file) };
+};
+
+// One audio URL per song, or null when no file matches it. A file is used at most once.
+const matchAudioFiles = (songs: Song[], files: LocalAudioFile[]): (string | null)[] => {
+  const unused = [...files];
+  return songs.map(song => {
+    const match = findCatalogTrack(song, unused);
+    if (!match) return null;
+    unused.splice(unused.indexOf(match), 1);
+    return match.url;
+  });
+};
+
+// Where playback is on the journey's time axis. Real files rarely last
+// exactly as long as the estimate, so the position within a song is scaled.
+const journeyPositionSec = (songs: Song[], index: number, fraction: number) =>
+  totalSeconds(songs.slice(0, index)) + songSeconds(songs[index]) * fraction;
+
+interface JourneyPlayerOptions {
+  holdAfterEach?: boolean; // Stop after every song instead of moving on (guided mode)
+  resumeFrom?: number; // Where play starts when nothing is loaded
+  onSongEnd?: (index: number) => void;
+}
+
+// Plays the songs that have a source in order, skipping the rest. With a
+// crossfade the next song fades in over the last seconds of the current one.
+const useJourneyPlayer = (sources: (string | null)[], crossfadeSec: number, options: JourneyPlayerOptions = {}) => {
+  const [current, setCurrent] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [fraction, setFraction] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const fadingRef = useRef<HTMLAudioElement | null>(null);
+  const currentRef = useRef<number | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const nextPlayable = (from: number, direction = 1) => {
+    for (let i = from + direction; i >= 0 && i < sources.length; i += direction) if (sources[i]) return i;
+    return null;
+  };
+
+  const release = (audio: HTMLAudioElement | null) => {
+    if (!audio) return;
+    audio.onended = null;
+    audio.pause();
+    audio.removeAttribute('src');
+  };
+
+  const stop = () => {
+    release(audioRef.current);
+    release(fadingRef.current);
+    audioRef.current = null;
+    fadingRef.current = null;
+    currentRef.current = null;
+    setCurrent(null);
+    setIsPlaying(false);
+    setFraction(0);
+  };
+
+  const start = (index: number, fadeIn = false) => {
+    const src = sources[index];
+    if (!src) return;
+    const audio = new Audio(src);
+    audio.volume = fadeIn ? 0 : 1;
+    audio.onended = () => {
+      if (audioRef.current !== audio) return; // Already crossfaded away
+      if (optionsRef.current.holdAfterEach) {
+        stop();
+        optionsRef.current.onSongEnd?.(index);
+        return;
+      }
+      const next = nextPlayable(index);
+      if (next === null) stop();
+      else start(next);
+    };
+    if (!fadeIn) {
+      release(audioRef.current);
+      release(fadingRef.current);
+      fadingRef.current = null;
+    }
+    audioRef.current = audio;
+    currentRef.current = index;
+    setCurrent(index);
+    setFraction(0);
+    setIsPlaying(true);
+    audio.play().catch(e => {
+      console.error("Playback failed", e);
+      stop();
+    });
+  };
+
+  const tick = () => {
+    const audio = audioRef.current;
+    if (!audio || currentRef.current === null) return;
+    if (audio.duration) setFraction(Math.min(1, audio.currentTime / audio.duration));
+
+    const fading = fadingRef.current;
+    if (fading) {
+      const p = fading.duration ? Math.min(1, (fading.currentTime - (fading.duration - crossfadeSec)) / crossfadeSec) : 1;
+      fading.volume = Math.max(0, 1 - p);
+      audio.volume = Math.max(0, Math.min(1, p));
+      if (p >= 1 || fading.ended) {
+        release(fading);
+        fadingRef.current = null;
+        audio.volume = 1;
+      }
+      return;
+    }
+    if (crossfadeSec > 0 && !optionsRef.current.holdAfterEach && audio.duration && audio.duration - audio.currentTime <= crossfadeSec) {
+      const next = nextPlayable(currentRef.current);
+      if (next === null) return;
+      fadingRef.current = audio;
+      start(next, true);
+    }
+  };
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const id = setInterval(tick, PLAYBACK_TICK_MS);
+    return () => clearInterval(id);
+  });
+
+  // A re-planned or different journey invalidates the queue.
+  useEffect(() => stop, [sources]);
+
+  const toggle = () => {
+    if (current === null) {
+      const first = nextPlayable((optionsRef.current.resumeFrom ?? 0) - 1);
+      if (first !== null) start(first);
+      return;
+    }
+    if (isPlaying) {
+      audioRef.current?.pause();
+      fadingRef.current?.pause();
+      setIsPlaying(false);
+    } else {
+      setIsPlaying(true);
+      // Autoplay rules can refuse to resume; stay paused where we were.
+      Promise.all([audioRef.current?.play(), fadingRef.current?.play()]).catch(e => {
+        console.error("Playback failed", e);
+        audioRef.current?.pause();
+        fadingRef.current?.pause();
+        setIsPlaying(false);
+      });
+    }
+  };
+
+  const skip = (direction: 1 | -1) => {
+    const target = nextPlayable(current ?? -1, direction);
+    if (target !== null) start(target);
+  };
+
+  return { current, isPlaying, fraction, play: start, toggle, skip, stop };
+};
+
+// --- Visual Components ---
+
+const LiveWaveform = ({ analyser, isRecording }: { analyser: React.MutableRefObject<AnalyserNode | null>, isRecording: boolean }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!isRecording || !analyser.current || !canvasRef.current) return;
+    
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const bufferLength = analyser.current.frequencyBinCount;
+    const dataArray = new Uint8Array(bufferLength);
+    let animationId: number;
+
+    const draw = () => {
+      animationId = requestAnimationFrame(draw);
+      analyser.current!.getByteTimeDomainData(dataArray);
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.lineWidth = 3;
+      // Aurora Gradient for Waveform
+      const gradient = ctx.createLinearGradient(0, 0, canvas.width, 0);
+      gradient.addColorStop(0, '#2DD4BF'); // Teal
+      gradient.addColorStop(0.5, '#A78BFA'); // Purple
+      gradient.addColorStop(1, '#F472B6'); // Pink
+      ctx.strokeStyle = gradient;
+
+      ctx.beginPath();
+      const sliceWidth = canvas.width / bufferLength;
+      let x = 0;
+
+      for (let i = 0; i < bufferLength; i++) {
+        const v = dataArray[i] / 128.0;
+        const y = v * canvas.height / 2;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+        x += sliceWidth;
+      }
+      ctx.lineTo(canvas.width, canvas.height / 2);
+      ctx.stroke();
+    };
+
+    draw();
+    return () => cancelAnimationFrame(animationId);
+  }, [isRecording, analyser]);
+
+  return <canvas ref={canvasRef} width={600} height={100} className="w-full h-24 rounded-lg bg-black/20" />;
+};
+
+const TRIMMER_COLUMNS = 300;
+
+// Static waveform of an uploaded file with a start/end selection; only the
+// selected part is re-encoded and analysed.
+const AudioTrimmer = ({ buffer, fileName, maxSec, onConfirm, onCancel }: {
+  buffer: AudioBuffer;
+  fileName: string;
+  maxSec: number;
+  onConfirm: (startSec: number, endSec: number) => void;
+  onCancel: () => void;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<{ ctx: AudioContext; source: AudioBufferSourceNode } | null>(null);
+  const [startSec, setStartSec] = useState(0);
+  const [endSec, setEndSec] = useState(Math.min(buffer.duration, maxSec));
+  const [previewing, setPreviewing] = useState(false);
+  // A tenth of the clip for very short ones, so the selection can't end before it starts.
+  const minGap = Math.min(1, buffer.duration / 10);
+
+  const peaks = useMemo(() => {
+    const data = buffer.getChannelData(0);
+    const size = Math.max(1, Math.floor(data.length / TRIMMER_COLUMNS));
+    return Array.from({ length: TRIMMER_COLUMNS }, (_, c) => {
+      let peak = 0;
+      for (let i = c * size; i < Math.min(data.length, (c + 1) * size); i++) peak = Math.max(peak, Math.abs(data[i]));
+      return peak;
+    });
+  }, [buffer]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = canvas;
+    const colWidth = width / peaks.length;
+    const loud = Math.max(...peaks) || 1;
+    ctx.clearRect(0, 0, width, height);
+    peaks.forEach((peak, c) => {
+      const t = (c / peaks.length) * buffer.duration;
+      ctx.fillStyle = t >= startSec && t <= endSec ? '#2DD4BF' : 'rgba(148, 163, 184, 0.3)';
+      const h = Math.max(1, (peak / loud) * height * 0.9);
+      ctx.fillRect(c * colWidth, (height - h) / 2, Math.max(1, colWidth - 1), h);
+    });
+  }, [peaks, startSec, endSec, buffer]);
+
+  const stopPreview = () => {
+    if (previewRef.current) previewRef.current.source.onended = null; // stop() would fire it again later
+    previewRef.current?.source.stop();
+    previewRef.current?.ctx.close();
+    previewRef.current = null;
+    setPreviewing(false);
+  };
+
+  useEffect(() => stopPreview, []);
+
+  const togglePreview = () => {
+    if (previewRef.current) return stopPreview();
+    const ctx = new AudioContext();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = stopPreview;
+    source.start(0, startSec, endSec - startSec);
+    previewRef.current = { ctx, source };
+    setPreviewing(true);
+  };
+
+  // Keeps the selection inside the clip, ordered and no longer than the recording limit.
+  const moveStart = (value: number) => {
+    const start = Math.max(0, Math.min(value, endSec - minGap));
+    setStartSec(start);
+    if (endSec - start > maxSec) setEndSec(start + maxSec);
+  };
+  const moveEnd = (value: number) => {
+    const end = Math.min(buffer.duration, Math.max(value, startSec + minGap));
+    setEndSec(end);
+    if (end - startSec > maxSec) setStartSec(end - maxSec);
+  };
+
+  return (
+    <div className="w-full animate-fade-in">
+      <div className="flex justify-between items-baseline mb-2">
+        <span className="text-xs text-slate-300 truncate max-w-[60%]" title={fileName}>{fileName}</span>
+        <span className="text-[11px] font-mono text-slate-500">{formatDuration(startSec)}–{formatDuration(endSec)} of {formatDuration(buffer.duration)}</span>
+      </div>
+      <canvas ref={canvasRef} width={600} height={80} className="w-full h-20 rounded-lg bg-black/20" />
+      <div className="mt-2 space-y-1">
+        <input type="range" min={0} max={buffer.duration} step={Math.min(0.1, minGap)} value={startSec} onChange={(e) => moveStart(Number(e.target.value))} className="w-full accent-brand-primary" aria-label="Trim start" />
+        <input type="range" min={0} max={buffer.duration} step={Math.min(0.1, minGap)} value={endSec} onChange={(e) => moveEnd(Number(e.target.value))} className="w-full accent-brand-accent" aria-label="Trim end" />
+      </div>
+      {buffer.duration > maxSec && (
+        <p className="text-[11px] text-slate-500 mt-1">Up to {formatDuration(maxSec)} can be analysed at once.</p>
+      )}
+      <div className="flex gap-3 mt-3">
+        <button onClick={togglePreview} className="px-4 py-2 rounded-xl border border-white/10 text-slate-300 text-sm hover:bg-white/5 transition-all">
+          {previewing ? '■ Stop' : '▶ Preview'}
+        </button>
+        <button onClick={() => { stopPreview(); onConfirm(startSec, endSec); }} className="flex-1 py-2 rounded-xl bg-brand-primary/20 border border-brand-primary/40 text-brand-primary text-sm font-bold hover:bg-brand-primary/30 transition-all">
+          Use this part
+        </button>
+        <button onClick={() => { stopPreview(); onCancel(); }} className="px-4 py-2 rounded-xl text-slate-500 text-sm hover:text-slate-300 transition-all">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const MorphingBackground = ({ state }: { state: AxisState }) => {
+  const getGradient = () => {
+    const { energy: e, hedonic: h, reality: r } = state;
+    // Deep Ocean / Aurora base themes
+    if (e < -0.4 && h < -0.4) return "linear-gradient(-45deg, #020617, #0F172A, #1e1b4b, #000000)"; // Abyssal
+    else if (r > 0.4 || e > 0.6) return "linear-gradient(-45deg, #312e81, #4c1d95, #be185d, #881337)"; // Intense Aura
+    else if (r < -0.4) return "linear-gradient(-45deg, #0f172a, #134e4a, #115e59, #0f172a)"; // Foggy Deep
+    else return "linear-gradient(-45deg, #0f172a, #1e293b, #334155, #0f172a)"; // Neutral Deep
+  };
+
+  return <div className="fixed inset-0 -z-20 bg-gradient-anim opacity-90 transition-all duration-2000" style={{ backgroundImage: getGradient() }} />;
+};
+
+const GeometricOverlay = () => (
+  <div className="fixed inset-0 -z-10 opacity-10 pointer-events-none mix-blend-overlay">
+    <svg width="100%" height="100%">
+      <defs>
+        <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
+          <path d="M 40 0 L 0 0 0 40" fill="none" stroke="white" strokeWidth="0.5" />
+        </pattern>
+        <pattern id="circles" width="100" height="100" patternUnits="userSpaceOnUse">
+          <circle cx="50" cy="50" r="40" fill="none" stroke="white" strokeWidth="0.5" />
+        </pattern>
+      </defs>
+      <rect width="100%" height="100%" fill="url(#grid)" className="animate-pulse-slow" />
+      <circle cx="50%" cy="50%" r="300" fill="url(#circles)" className="animate-spin-slow origin-center opacity-30" />
+    </svg>
+  </div>
+);
+
+const WaveformBar = ({ color }: { color: string }) => (
+  <div className="flex items-end gap-[2px] h-8 opacity-70">
+    {[...Array(8)].map((_, i) => (
+      <div key={i} className="waveform-bar" style={{ color, animationDelay: `${i * 0.1}s`, animationDuration: `${0.8 + Math.random() * 0.5}s` }} />
+    ))}
+  </div>
+);
+
+const ParticleJourney = ({ active }: { active: boolean }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !active) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    let particles: any[] = [];
+    const w = canvas.width = canvas.offsetWidth;
+    const h = canvas.height = canvas.offsetHeight;
+    const createParticle = () => ({
+      x: Math.random() * w,
+      y: h + 10,
+      vx: (Math.random() - 0.5) * 1,
+      vy: -Math.random() * 2 - 1,
+      size: Math.random() * 3 + 1,
+      color: `rgba(${100 + Math.random() * 155}, ${200 + Math.random() * 55}, 255, ${Math.random() * 0.5})`
+    });
+    for (let i = 0; i < 50; i++) particles.push(createParticle());
+    let animationId: number;
+    const animate = () => {
+      ctx.clearRect(0, 0, w, h);
+      particles.forEach((p, i) => {
+        p.y += p.vy;
+        p.x += p.vx;
+        p.size *= 0.99;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+        ctx.fillStyle = p.color;
+        ctx.fill();
+        if (p.y < -10 || p.size < 0.1) particles[i] = createParticle();
+      });
+      animationId = requestAnimationFrame(animate);
+    };
+    animate();
+    return () => cancelAnimationFrame(animationId);
+  }, [active]);
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none opacity-50" />;
+};
+
+const CATALOG_MATCH_STYLES: Record<CatalogMatch, { label: string; className: string }> = {
+  verified: { label: "✓ In your library", className: "text-brand-primary border-brand-primary/30 bg-brand-primary/10" },
+  substituted: { label: "↺ Swapped from your library", className: "text-amber-200 border-amber-500/30 bg-amber-500/10" },
+  unverified: { label: "? Not in your library", className: "text-slate-400 border-white/10 bg-white/5" }
+};
+
+const CatalogMatchBadge = ({ song }: { song: Song }) => {
+  const style = CATALOG_MATCH_STYLES[song.catalog_match ?? "unverified"];
+  return (
+    <span
+      className={`inline-block mt-1 text-[10px] px-2 py-0.5 rounded-full border ${style.className}`}
+      title={song.replaced ? `Suggested: ${song.replaced}` : undefined}
+    >
+      {style.label}{song.replaced ? ` (for ${song.replaced})` : ''}
+    </span>
+  );
+};
+
+const SongCard: React.FC<{
+  song: Song;
+  index: number;
+  songCount: number;
+  elapsedSec: number; // Running total at the end of this song
+  onFeedback?: (feedback: SongFeedback | undefined) => void; // Left out for read-only shared journeys
+  onReplan?: () => void;
+  onPlay?: () => void; // Set when the song has a matched local file
+  isCurrent?: boolean;
+  onCheckIn?: () => void; // Guided mode: set on the song whose check-in is due
+}> = ({ song, index, songCount, elapsedSec, onFeedback, onReplan, onPlay, isCurrent = false, onCheckIn }) => {
+  const feedback = song.feedback;
+  const setFeedback = (value: SongFeedback) => onFeedback?.(feedback === value ? undefined : value);
+
+  return (
+    <div className={`glass-card rounded-xl p-5 mb-4 flex gap-5 items-start transform transition-all hover:scale-[1.02] hover:bg-white/5 animate-fade-in-up group relative overflow-hidden ${isCurrent ? 'ring-1 ring-white/40 bg-white/5' : ''}`} style={{ animationDelay: `${Math.min(index, 8) * 200}ms`, borderLeft: `4px solid ${song.color_hex}` }}>
+      <div className="absolute inset-0 opacity-0 group-hover:opacity-10 transition-opacity duration-500" style={{ background: `linear-gradient(90deg, ${song.color_hex} 0%, transparent 100%)` }} />
+      
+      {/* Link covers the card but is positioned behind content (z-0). Songs with a local file play in the app. */}
+      {onPlay ? (
+        <button onClick={onPlay} className="absolute inset-0 z-0" aria-label={`Play ${song.title}`} />
+      ) : (
+        <a 
+          href={songSearchUrl(song)} 
+          target="_blank" 
+          rel="noopener noreferrer" 
+          className="absolute inset-0 z-0" 
+          aria-label={`Listen to ${song.title}`} 
+        />
+      )}
+      
+      <div className="flex-shrink-0 w-14 h-14 rounded-full flex items-center justify-center font-display font-bold text-xl shadow-lg relative mt-1 z-10 pointer-events-none" style={{ backgroundColor: song.color_hex, color: '#0F172A' }}>
+        {index + 1}
+      </div>
+      
+      <div className="flex-grow z-10 pointer-events-none">
+        <div className="flex justify-between items-center mb-1">
+          <div>
+            <h3 className="font-display font-bold text-lg text-white group-hover:text-brand-primary transition-colors">{isCurrent ? '▶ ' : ''}{song.title}</h3>
+            <p className="text-slate-400 text-sm font-medium">{song.artist}</p>
+            <p className="text-[11px] text-slate-500 font-mono mt-0.5">{formatDuration(songSeconds(song))} · {formatDuration(elapsedSec)} total</p>
+            {song.catalog_match && <CatalogMatchBadge song={song} />}
+          </div>
+          <WaveformBar color={song.color_hex} />
+        </div>
+        <p className="text-sm text-slate-300 leading-relaxed opacity-90 mb-3">{song.therapeutic_note}</p>
+        
+        {/* Buttons: pointer-events-auto ensures they are clickable */}
+        {onFeedback && <div className="flex gap-2 pointer-events-auto">
+           <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); setFeedback('heavy'); }} className={`text-xs px-3 py-1 rounded-full border transition-colors ${feedback === 'heavy' ? 'bg-white/20 border-white text-white' : 'border-white/10 text-slate-400 hover:bg-white/5'}`}>Too Heavy</button>
+           <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); setFeedback('meh'); }} className={`text-xs px-3 py-1 rounded-full border transition-colors ${feedback === 'meh' ? 'bg-white/20 border-white text-white' : 'border-white/10 text-slate-400 hover:bg-white/5'}`}>Not Quite</button>
+           <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); setFeedback('good')} } className={`text-xs px-3 py-1 rounded-full border transition-colors ${feedback === 'good' ? 'bg-brand-primary/20 border-brand-primary text-brand-primary' : 'border-brand-primary/30 text-brand-primary/70 hover:bg-brand-primary/10'}`}>Yes! ✓</button>
+           {onCheckIn && (
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onCheckIn(); }} className="text-xs px-3 py-1 rounded-full border border-amber-400/40 text-amber-200 hover:bg-amber-500/10 transition-colors ml-auto">
+               Finished · Check in
+             </button>
+           )}
+        </div>}
+
+        {onReplan && (feedback === 'heavy' || feedback === 'meh') && (
+          <div className="mt-3 flex items-center gap-3 pointer-events-auto animate-fade-in">
+            <p className="text-[11px] text-slate-400">
+              {feedback === 'heavy' ? 'Want a lighter path from here?' : 'Want to try a different direction?'}
+            </p>
+            <button
+              onClick={(e) => { e.preventDefault(); e.stopPropagation(); onReplan(); }}
+              className="text-xs px-3 py-1 rounded-full bg-brand-accent/20 border border-brand-accent/40 text-brand-accent hover:bg-brand-accent/30 transition-colors"
+            >
+              ↻ Re-plan songs {index + 1}{index + 1 < songCount ? `–${songCount}` : ''}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- NEW SCIENTIFIC & VISUALIZATION COMPONENTS ---
+
+const AxisSelector = ({ active, onChange }: { active: string, onChange: (axis: string) => void }) => {
+    const axes = ['energy', 'reality', 'temporal', 'repetition', 'hedonic'];
+    
+    return (
+      <div className="flex gap-1 p-1 bg-slate-800/50 rounded-lg mb-4">
+        {axes.map(axis => (
+          <button
+            key={axis}
+            onClick={() => onChange(axis)}
+            className={`flex-1 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded transition-all
+              ${active === axis 
+                ? 'bg-gradient-to-r from-teal-400 to-purple-400 text-slate-900 shadow-lg shadow-purple-500/20' 
+                : 'text-slate-500 hover:text-white'
+              }`}
+          >
+            {axis.slice(0, 3)}
+          </button>
+        ))}
+      </div>
+    );
+  };
+  
+  interface JourneyGraphProps {
+    songs: Song[];
+    initialState: AxisState;
+    targetState: AxisState;
+    activeAxis: Exclude<keyof AxisState, 'summary'>;
+    progressSec?: number | null; // Playback position on the journey's time axis
+    checkIns?: CheckIn[]; // Drawn as the measured path next to the planned one
+  }
+  
+  const JourneyGraph = ({ songs, initialState, targetState, activeAxis, progressSec = null, checkIns = [] }: JourneyGraphProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    
+    // Axis labels mapping
+    const axisLabels: Record<string, { low: string; high: string }> = {
+      energy: { low: 'Exhausted', high: 'Wired' },
+      reality: { low: 'Foggy', high: 'On Edge' },
+      temporal: { low: 'Past-focused', high: 'Future-anxious' },
+      repetition: { low: 'Bored', high: 'Obsessing' },
+      hedonic: { low: 'Numb', high: 'Overwhelmed' }
+    };
+  
+    useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+  
+      const w = canvas.width;
+      const h = canvas.height;
+      const padding = 40;
+      const graphW = w - padding * 2;
+      const graphH = h - padding * 2;
+  
+      ctx.clearRect(0, 0, w, h);
+  
+      // Background Gradient
+      const bgGrad = ctx.createLinearGradient(0, 0, 0, h);
+      bgGrad.addColorStop(0, 'rgba(239, 68, 68, 0.1)');  // High/Extreme
+      bgGrad.addColorStop(0.5, 'rgba(45, 212, 191, 0.1)'); // Healthy Middle
+      bgGrad.addColorStop(1, 'rgba(59, 130, 246, 0.1)');  // Low/Extreme
+      ctx.fillStyle = bgGrad;
+      ctx.fillRect(padding, padding, graphW, graphH);
+  
+      // Healthy Zone (-0.3 to +0.3)
+      const healthyTop = padding + graphH * (1 - (HEALTHY_BAND + 1) / 2);
+      const healthyBottom = padding + graphH * (1 - (-HEALTHY_BAND + 1) / 2);
+      ctx.fillStyle = 'rgba(45, 212, 191, 0.15)';
+      ctx.fillRect(padding, healthyTop, graphW, healthyBottom - healthyTop);
+      
+      // Center Line (0)
+      const centerY = padding + graphH / 2;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+      ctx.setLineDash([5, 5]);
+      ctx.beginPath();
+      ctx.moveTo(padding, centerY);
+      ctx.lineTo(w - padding, centerY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+  
+      // Axis Labels
+      ctx.fillStyle = '#94a3b8';
+      ctx.font = '10px Outfit';
+      ctx.textAlign = 'right';
+      ctx.fillText(axisLabels[activeAxis].high, padding - 5, padding + 10);
+      ctx.fillText('0', padding - 5, centerY + 3);
+      ctx.fillText(axisLabels[activeAxis].low, padding - 5, h - padding);
+  
+      // Calculate Points
+      // Normalize values from -1...1 to 0...1 for canvas Y (inverted)
+      const getY = (val: number) => padding + graphH * (1 - (val + 1) / 2);
+      
+      // Songs sit at the middle of their slot in listening time; with many
+      // songs only every few get a label so they don't overlap.
+      const total = totalSeconds(songs) || 1;
+      const labelEvery = Math.ceil(songs.length / 8);
+      let elapsed = 0;
+      const points = [
+        { x: padding, y: getY(initialState[activeAxis]), label: 'Start', color: '#F472B6', labelled: true },
+        ...songs.map((song, i) => {
+          const x = padding + graphW * ((elapsed + songSeconds(song) / 2) / total);
+          elapsed += songSeconds(song);
+          return {
+            x,
+            y: getY(song.target_state[activeAxis]),
+            label: `Song ${i + 1}`,
+            color: song.color_hex,
+            labelled: i % labelEvery === 0 || i === songs.length - 1
+          };
+        }),
+        { x: w - padding, y: getY(targetState[activeAxis]), label: 'Target', color: '#2DD4BF', labelled: true }
+      ];
+  
+      // Draw Curve
+      ctx.strokeStyle = 'rgba(167, 139, 250, 0.8)';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      
+      for (let i = 1; i < points.length; i++) {
+        const xc = (points[i].x + points[i - 1].x) / 2;
+        const yc = (points[i].y + points[i - 1].y) / 2;
+        ctx.quadraticCurveTo(points[i - 1].x, points[i - 1].y, xc, yc);
+      }
+      ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
+      ctx.stroke();
+  
+      // Draw Points
+      points.forEach((p, i) => {
+        // Glow effect
+        ctx.shadowColor = p.color;
+        ctx.shadowBlur = 10;
+        
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, i === 0 || i === points.length - 1 ? 8 : songs.length > 8 ? 4 : 6, 0, Math.PI * 2);
+        ctx.fillStyle = p.color;
+        ctx.fill();
+        ctx.shadowBlur = 0;
+        if (!p.labelled) return;
+  
+        // Labels
+        ctx.fillStyle = '#e2e8f0';
+        ctx.font = '9px Outfit';
+        ctx.textAlign = 'center';
+        ctx.fillText(p.label, p.x, p.y + 20);
+        
+        // Values
+        const value = i === 0 ? initialState[activeAxis] : 
+                      i === points.length - 1 ? targetState[activeAxis] : 
+                      songs[i - 1].target_state[activeAxis];
+        ctx.fillStyle = '#94a3b8';
+        ctx.fillText(value.toFixed(1), p.x, p.y - 12);
+      });
+
+      // Measured path: from the start through each check-in, at the song it followed
+      const measured = checkIns.filter(c => c.afterSong < songs.length);
+      if (measured.length > 0) {
+        const path = [points[0], ...measured.map(c => ({ x: points[c.afterSong + 1].x, y: getY(c.state[activeAxis]) }))];
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        path.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+        ctx.setLineDash([]);
+        path.slice(1).forEach(p => {
+          ctx.beginPath();
+          ctx.rect(p.x - 3.5, p.y - 3.5, 7, 7);
+          ctx.fillStyle = '#fbbf24';
+          ctx.fill();
+        });
+
+        ctx.font = '9px Outfit';
+        ctx.textAlign = 'right';
+        ctx.fillStyle = 'rgba(167, 139, 250, 1)';
+        ctx.fillText('— planned', w - padding, 12);
+        ctx.fillStyle = '#fbbf24';
+        ctx.fillText('- - felt', w - padding, 24);
+      }
+
+      // "You are here": a straight-line read between the neighbouring points
+      if (progressSec !== null) {
+        const x = padding + graphW * Math.min(1, progressSec / total);
+        const after = points.findIndex(p => p.x >= x);
+        const b = points[Math.max(1, after)];
+        const a = points[Math.max(0, after - 1)];
+        const y = b.x === a.x ? b.y : a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+        ctx.setLineDash([2, 3]);
+        ctx.beginPath();
+        ctx.moveTo(x, padding);
+        ctx.lineTo(x, h - padding);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.arc(x, y, 5, 0, Math.PI * 2);
+        ctx.fillStyle = '#ffffff';
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 9px Outfit';
+        ctx.textAlign = 'center';
+        ctx.fillText('You are here', x, padding - 6);
+      }
+  
+    }, [songs, initialState, targetState, activeAxis, progressSec, checkIns]);
+  
+    return (
+      <div className="relative">
+        <canvas ref={canvasRef} width={500} height={200} className="w-full" />
+      </div>
+    );
+  };
+  
+  // The "why this journey" explanation shown under ISO Principle Applied, with its source.
+  const isoInsightFor = (initialState: AxisState, target: AxisState, goalLabel: string) => {
+    // Find extreme axis
+    // Filter ensures we only look at numeric values and excludes 'summary'
+    const extremeAxis = Object.entries(initialState)
+      .filter((entry): entry is [string, number] => entry[0] !== 'summary' && typeof entry[1] === 'number')
+      .reduce((max, [key, val]) => 
+        Math.abs(val) > Math.abs(max.val) ? { axis: key, val } : max, 
+        { axis: 'energy', val: 0 }
+      );
+
+    // The axis with the furthest to travel towards the chosen goal
+    const longestMove = AXES.reduce((max, axis) =>
+      Math.abs(target[axis] - initialState[axis]) > Math.abs(target[max] - initialState[max]) ? axis : max, AXES[0]);
+    const goalSentence = ` From there we head towards "${goalLabel}".`;
+
+    if (extremeAxis.val < -0.4) {
+      return {
+        title: "Why we're starting low",
+        body: `Your ${extremeAxis.axis} is at ${extremeAxis.val.toFixed(1)}. Research shows that jumping to high-energy music when feeling depleted can feel dismissive. By starting with music that matches your state, we create space for your feelings before gently shifting.${goalSentence}`,
+        citation: "Thaut, M.H. (2005). Rhythm, Music, and the Brain"
+      };
+    } else if (extremeAxis.val > 0.4) {
+      return {
+        title: "Why we're easing down",
+        body: `Your ${extremeAxis.axis} is elevated at ${extremeAxis.val.toFixed(1)}. Rather than suppressing this with slow music immediately, we match your intensity first, then gradually introduce calmer elements. This respects your current energy.${goalSentence}`,
+        citation: "Saarikallio, S. (2011). Music as emotional self-regulation"
+      };
+    } else if (Math.abs(target[longestMove] - initialState[longestMove]) > 0.4) {
+      return {
+        title: `Heading towards "${goalLabel}"`,
+        body: `Your state is relatively balanced, so this journey is about the destination. Your ${longestMove} moves from ${initialState[longestMove].toFixed(1)} to ${target[longestMove].toFixed(1)} in small steps rather than one jump, so each song still feels familiar.`,
+        citation: "Juslin, P.N. (2013). From everyday emotions to aesthetic emotions"
+      };
+    } else {
+      return {
+        title: "Fine-tuning your balance",
+        body: `Your emotional state is relatively balanced. We're making subtle adjustments to optimize your wellbeing, focusing on gentle shifts rather than dramatic changes.`,
+        citation: "Juslin, P.N. (2013). From everyday emotions to aesthetic emotions"
+      };
+    }
+  };
+  
+  interface ISOExplanationProps {
+    initialState: AxisState;
+    target: AxisState;
+    goalLabel: string;
+    journeyNarrative: string;
+    isoInsight: string;
+    totalShift: AxisState;
+    songCount: number;
+    totalSec: number;
+  }
+  
+  const ISOExplanation = ({ initialState, target, goalLabel, journeyNarrative, isoInsight, totalShift, songCount, totalSec }: ISOExplanationProps) => {
+    const [expanded, setExpanded] = useState(false);
+  
+    const insight = isoInsightFor(initialState, target, goalLabel);
+  
+    return (
+      <div className="glass-panel rounded-2xl p-6 mb-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-full bg-brand-primary/20 flex items-center justify-center">
+            <span className="text-lg">🧠</span>
+          </div>
+          <div>
+            <h3 className="font-display font-bold text-white">ISO Principle Applied</h3>
+            <p className="text-xs text-slate-400">Evidence-based music selection</p>
+          </div>
+        </div>
+  
+        {/* Insight */}
+        <div className="bg-slate-800/50 rounded-xl p-4 mb-4 border-l-4 border-brand-primary">
+          <h4 className="text-sm font-bold text-brand-primary mb-2">{insight.title}</h4>
+          <p className="text-sm text-slate-300 leading-relaxed">{insight.body}</p>
+          <p className="text-[10px] text-slate-500 mt-2 italic">📚 {insight.citation}</p>
+        </div>
+  
+        {/* Narrative */}
+        <div className="mb-4">
+          <p className="text-sm text-slate-300 leading-relaxed italic border-l-2 border-white/20 pl-3">
+            "{journeyNarrative}"
+          </p>
+        </div>
+  
+        {/* Expansion */}
+        <button 
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-brand-primary hover:text-brand-accent transition-colors flex items-center gap-1 font-medium"
+        >
+          {expanded ? '▼' : '▶'} View detailed shift analysis
+        </button>
+  
+        {expanded && (
+          <div className="mt-4 pt-4 border-t border-white/10 animate-fade-in">
+            <h4 className="text-xs font-bold text-slate-400 uppercase mb-3">Total Axis Movement · {songCount} songs · {formatDuration(totalSec)}</h4>
+            <div className="grid grid-cols-5 gap-2 text-center">
+              {Object.entries(totalShift)
+                .filter((entry): entry is [string, number] => entry[0] !== 'summary' && typeof entry[1] === 'number')
+                .map(([axis, shift]) => (
+                <div key={axis} className="bg-slate-800/30 rounded-lg p-2">
+                  <div className="text-[10px] text-slate-500 capitalize mb-1">{axis.slice(0,3)}</div>
+                  <div className={`text-xs font-bold ${
+                    shift > 0 ? 'text-teal-400' : 
+                    shift < 0 ? 'text-purple-400' : 'text-slate-400'
+                  }`}>
+                    {shift > 0 ? '+' : ''}{shift.toFixed(2)}
+                  </div>
+                  {songCount > 1 && <div className="text-[9px] text-slate-500 mt-0.5">{(shift / (songCount - 1)).toFixed(2)}/song</div>}
+                </div>
+              ))}
+            </div>
+            
+            {isoInsight && (
+              <div className="mt-4 p-3 bg-brand-primary/10 rounded-lg border border-brand-primary/20">
+                <p className="text-xs text-brand-primary">💡 {isoInsight}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+const IsoComplianceBadge = ({ report }: { report: IsoReport }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (report.compliant) {
+    return (
+      <div className="mb-6 px-4 py-3 rounded-xl bg-brand-primary/10 border border-brand-primary/20 text-xs text-brand-primary animate-fade-in">
+        ✓ ISO compliant — every song stays within ±{(report.maxStep ?? ISO_MAX_STEP).toFixed(2)} of the one before it
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 px-4 py-3 rounded-xl bg-amber-500/10 border border-amber-500/20 animate-fade-in">
+      <div className="flex justify-between items-center gap-4">
+        <p className="text-xs text-amber-200">
+          ⚠ {report.violations.length} ISO violation{report.violations.length === 1 ? '' : 's'} found (score {Math.round(report.score * 100)}%).
+          {report.repaired ? ' The journey was re-ordered and clamped to keep each step gentle.' : ''}
+        </p>
+        <button onClick={() => setExpanded(!expanded)} className="text-[10px] text-amber-300 hover:text-white uppercase tracking-wider font-bold whitespace-nowrap">
+          {expanded ? 'Hide' : 'Details'}
+        </button>
+      </div>
+      {expanded && (
+        <ul className="mt-3 space-y-1 text-[11px] text-slate-300">
+          {report.violations.map((v, i) => (
+            <li key={i}>
+              <span className="text-amber-300 font-bold">Song {v.songIndex + 1}</span> ({v.songTitle}) · <span className="capitalize">{v.axis}</span> {describeIsoViolation(v)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const DroppedTracksList = ({ tracks, source }: { tracks: DroppedTrack[]; source?: string }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (tracks.length === 0) return null;
+
+  return (
+    <div className="mt-6 px-4 py-3 rounded-xl bg-slate-800/40 border border-white/5 animate-fade-in">
+      <div className="flex justify-between items-center gap-4">
+        <p className="text-xs text-slate-300">
+          {tracks.length} track{tracks.length === 1 ? '' : 's'}{source ? ` from ${source}` : ''} left out of this journey.
+        </p>
+        <button onClick={() => setExpanded(!expanded)} className="text-[10px] text-slate-400 hover:text-white uppercase tracking-wider font-bold whitespace-nowrap">
+          {expanded ? 'Hide' : 'Why?'}
+        </button>
+      </div>
+      {expanded && (
+        <ul className="mt-3 space-y-1 text-[11px] text-slate-400">
+          {tracks.map((track, i) => (
+            <li key={i}>
+              <span className="text-slate-200 font-bold">{track.title}</span>{track.artist ? ` — ${track.artist}` : ''} · {track.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const AxisRadarChart = ({ current, target, suggestion }: { current: AxisState; target?: AxisState, suggestion?: AxisState }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const chartInstanceRef = useRef<any>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    if (chartInstanceRef.current) chartInstanceRef.current.destroy();
+    const ctx = canvasRef.current.getContext("2d");
+    if (!ctx) return;
+
+    // Aurora Gradient for Chart Fill
+    const gradient = ctx.createLinearGradient(0, 0, 0, 400);
+    gradient.addColorStop(0, 'rgba(45, 212, 191, 0.4)'); // Teal
+    gradient.addColorStop(0.5, 'rgba(167, 139, 250, 0.3)'); // Purple
+    gradient.addColorStop(1, 'rgba(244, 114, 182, 0.1)'); // Pink
+
+    const datasets: any[] = [
+      {
+        label: 'My Settings',
+        data: [current.energy, current.reality, current.temporal, current.repetition, current.hedonic],
+        backgroundColor: gradient,
+        borderColor: '#2DD4BF', // Bright Teal Border
+        borderWidth: 2,
+        pointBackgroundColor: '#fff',
+        pointBorderColor: '#2DD4BF',
+        pointBorderWidth: 2,
+        pointRadius: 4,
+        pointHoverRadius: 6
+      }
+    ];
+
+    if (suggestion) {
+       datasets.push({
+        label: 'Suggested',
+        data: [suggestion.energy, suggestion.reality, suggestion.temporal, suggestion.repetition, suggestion.hedonic],
+        backgroundColor: 'rgba(251, 146, 60, 0.2)', // Orange tint
+        borderColor: '#FB923C',
+        borderWidth: 2,
+        pointBackgroundColor: '#FB923C',
+        pointBorderColor: '#fff',
+        pointBorderWidth: 1,
+        pointRadius: 3
+       });
+    }
+
+    if (target) {
+       datasets.push({
+        label: 'Target',
+        data: [target.energy, target.reality, target.temporal, target.repetition, target.hedonic],
+        backgroundColor: 'transparent',
+        borderColor: 'rgba(255, 255, 255, 0.3)',
+        borderWidth: 1,
+        borderDash: [5, 5],
+        pointRadius: 0
+      });
+    }
+
+    chartInstanceRef.current = new Chart(ctx, {
+      type: 'radar',
+      data: {
+        labels: ['Energy', 'Reality', 'Temporal', 'Repetition', 'Hedonic'],
+        datasets: datasets
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: { duration: 1000 },
+        scales: {
+          r: {
+            angleLines: { color: 'rgba(255, 255, 255, 0.05)' },
+            grid: { color: 'rgba(255, 255, 255, 0.05)' },
+            pointLabels: { color: '#94a3b8', font: { family: 'Outfit', size: 10, weight: 600 } },
+            ticks: { display: false, backdropColor: 'transparent' },
+            min: -1,
+            max: 1
+          }
+        },
+        plugins: { 
+            legend: { 
+                display: true, 
+                labels: { color: '#cbd5e1', font: {family: 'Outfit'} } 
+            } 
+        }
+      }
+    });
+    return () => { if (chartInstanceRef.current) chartInstanceRef.current.destroy(); };
+  }, [current, target, suggestion]);
+  return <div className="relative h-64 w-full chart-container"><canvas ref={canvasRef} /></div>;
+};
+
+// Updated Chakra Slider with specific gradients
+const AxisSlider = ({ label, lowLabel, highLabel, value, onChange, gradient }: { label: string, lowLabel: string, highLabel: string, value: number, onChange: (v: number) => void, gradient: string }) => (
+  <div className="mb-5 animate-fade-in-up">
+    <div className="flex justify-between text-xs text-slate-400 mb-2 font-medium tracking-wide">
+      <span className="w-20 text-left opacity-70">{lowLabel}</span>
+      <span className="text-white font-bold tracking-widest uppercase">{label}</span>
+      <span className="w-20 text-right opacity-70">{highLabel}</span>
+    </div>
+    <div className="relative h-4 w-full flex items-center">
+        {/* Custom Track Background */}
+        <div 
+            className="absolute w-full h-1.5 rounded-full opacity-80"
+            style={{ background: gradient }}
+        />
+        <input 
+        type="range" 
+        min="-1" max="1" step="0.1" 
+        value={value}
+        aria-label={`${label} slider`}
+        aria-valuemin={-1}
+        aria-valuemax={1}
+        aria-valuenow={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full absolute z-10 appearance-none cursor-pointer h-full opacity-100 bg-transparent focus:outline-none"
+        />
+    </div>
+  </div>
+);
+
+const GenreSelector = ({ selected, setSelected, excluded, setExcluded }: { 
+    selected: string[], 
+    setSelected: (s: string[]) => void, 
+    excluded: string[], 
+    setExcluded: (s: string[]) => void 
+}) => (
+  <div className="mb-8 animate-fade-in">
+    <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+      <span className="text-aurora">🎵 What music do you like?</span>
+    </h3>
+    <div className="flex flex-wrap gap-2 mb-4">
+      {GENRE_OPTIONS.map((genre) => (
+        <button
+          key={genre.id}
+          onClick={() => {
+            if (selected.includes(genre.id)) {
+              setSelected(selected.filter(g => g !== genre.id));
+            } else {
+              setSelected([...selected, genre.id]);
+              setExcluded(excluded.filter(g => g !== genre.id));
+            }
+          }}
+          className={`px-3 py-2 rounded-full text-xs font-medium transition-all duration-300 flex items-center gap-1 border
+            ${selected.includes(genre.id) 
+              ? 'bg-aurora text-slate-900 border-transparent shadow-[0_0_15px_rgba(167,139,250,0.5)] transform scale-105 font-bold' 
+              : 'bg-slate-800/40 text-slate-400 border-white/5 hover:bg-slate-700/50 hover:border-white/10 hover:text-slate-200'
+            }`}
+        >
+          <span>{genre.emoji}</span> {genre.label}
+        </button>
+      ))}
+    </div>
+    
+    <details className="text-slate-500">
+      <summary className="cursor-pointer text-xs hover:text-slate-300 font-medium transition-colors">
+        ❌ Exclude genres (optional)
+      </summary>
+      <div className="flex flex-wrap gap-2 mt-3 p-3 bg-black/20 rounded-xl border border-white/5">
+        {GENRE_OPTIONS.map((genre) => (
+          <button
+            key={genre.id}
+            onClick={() => {
+              if (excluded.includes(genre.id)) {
+                setExcluded(excluded.filter(g => g !== genre.id));
+              } else {
+                setExcluded([...excluded, genre.id]);
+                setSelected(selected.filter(g => g !== genre.id));
+              }
+            }}
+            className={`px-3 py-1 rounded-full text-[10px] transition-all
+              ${excluded.includes(genre.id) 
+                ? 'bg-red-500/20 text-red-300 border border-red-500/30' 
+                : 'bg-slate-800/40 text-slate-500 hover:bg-slate-700/50'
+              }`}
+          >
+            {genre.label}
+          </button>
+        ))}
       </div>
-    );
-  };
-  
-  interface ISOExplanationProps {
-    initialState: AxisState;
-    journeyNarrative: string;
-    isoInsight: string;
-    totalShift: AxisState;
-  }
-  
-  const ISOExplanation = ({ initialState, journeyNarrative, isoInsight, totalShift }: ISOExplanationProps) => {
-    const [expanded, setExpanded] = useState(false);
-  
-    // Find extreme axis
-    // Filter ensures we only look at numeric values and excludes 'summary'
-    const extremeAxis = Object.entries(initialState)
-      .filter((entry): entry is [string, number] => entry[0] !== 'summary' && typeof entry[1] === 'number')
-      .reduce((max, [key, val]) => 
-        Math.abs(val) > Math.abs(max.val) ? { axis: key, val } : max, 
-        { axis: 'energy', val: 0 }
-      );
-  
-    const getInsightText = () => {
-      if (extremeAxis.val < -0.4) {
-        return {
-          title: "Why we're starting low",
-          body: `Your ${extremeAxis.axis} is at ${extremeAxis.val.toFixed(1)}. Research shows that jumping to high-energy music when feeling depleted can feel dismissive. By starting with music that matches your state, we create space for your feelings before gently shifting.`,
-          citation: "Thaut, M.H. (2005). Rhythm, Music, and the Brain"
-        };
-      } else if (extremeAxis.val > 0.4) {
-        return {
-          title: "Why we're easing down",
-          body: `Your ${extremeAxis.axis} is elevated at ${extremeAxis.val.toFixed(1)}. Rather than suppressing this with slow music immediately, we match your intensity first, then gradually introduce calmer elements. This respects your current energy.`,
-          citation: "Saarikallio, S. (2011). Music as emotional self-regulation"
-        };
-      } else {
-        return {
-          title: "Fine-tuning your balance",
-          body: `Your emotional state is relatively balanced. We're making subtle adjustments to optimize your wellbeing, focusing on gentle shifts rather than dramatic changes.`,
-          citation: "Juslin, P.N. (2013). From everyday emotions to aesthetic emotions"
-        };
-      }
-    };
-  
-    const insight = getInsightText();
-  
-    return (
-      <div className="glass-panel rounded-2xl p-6 mb-6 animate-fade-in">
-        {/* Header */}
-        <div className="flex items-center gap-3 mb-4">
-          <div className="w-10 h-10 rounded-full bg-brand-primary/20 flex items-center justify-center">
-            <span className="text-lg">🧠</span>
-          </div>
-          <div>
-            <h3 className="font-display font-bold text-white">ISO Principle Applied</h3>
-            <p className="text-xs text-slate-400">Evidence-based music selection</p>
-          </div>
+    </details>
+  </div>
+);
+
+const PitchSparkline = ({ contour }: { contour: number[] }) => {
+  if (contour.length < 2) return null;
+  const lo = Math.min(...contour);
+  const span = Math.max(...contour) - lo || 1;
+  const points = contour.map((hz, i) => `${(i / (contour.length - 1)) * 60},${18 - ((hz - lo) / span) * 16}`).join(' ');
+  return (
+    <svg width="60" height="20" className="inline-block align-middle">
+      <polyline points={points} fill="none" stroke="#2DD4BF" strokeWidth="1.5" strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+// "What we heard": the model's reading of the voice next to the numbers measured on-device.
+const VoiceFeaturePanel = ({ analysis, features }: { analysis?: VoiceMetrics; features?: ClientAudioMetrics }) => (
+  <div className="bg-slate-800/50 p-3 rounded-lg border border-white/5 mb-4">
+    <p className="text-xs text-brand-primary font-bold uppercase mb-1">What we heard</p>
+    {analysis?.note && <p className="text-sm text-slate-400 mb-2">"{analysis.note}"</p>}
+    {features && (
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-[11px]">
+        <div>
+          <dt className="text-slate-500">Pitch</dt>
+          <dd className="text-slate-200">
+            {features.f0MeanHz === null ? '—' : <>{features.f0MeanHz} Hz · ±{Math.round((features.f0RangeHz ?? 0) / 2)} <PitchSparkline contour={features.f0Contour} /></>}
+          </dd>
+          <dd className="text-slate-500">{analysis?.pitch || describePitch(features)}</dd>
         </div>
-  
-        {/* Insight */}
-        <div className="bg-slate-800/50 rounded-xl p-4 mb-4 border-l-4 border-brand-primary">
-          <h4 className="text-sm font-bold text-brand-primary mb-2">{insight.title}</h4>
-          <p className="text-sm text-slate-300 leading-relaxed">{insight.body}</p>
-          <p className="text-[10px] text-slate-500 mt-2 italic">📚 {insight.citation}</p>
+        <div>
+          <dt className="text-slate-500">Stability</dt>
+          <dd className="text-slate-200">
+            {features.jitterPct === null ? '—' : `jitter ${features.jitterPct.toFixed(1)}% · shimmer ${(features.shimmerPct ?? 0).toFixed(1)}%`}
+          </dd>
+          <dd className="text-slate-500">{analysis?.stability || describeStability(features)}</dd>
         </div>
-  
-        {/* Narrative */}
-        <div className="mb-4">
-          <p className="text-sm text-slate-300 leading-relaxed italic border-l-2 border-white/20 pl-3">
-            "{journeyNarrative}"
-          </p>
+        <div>
+          <dt className="text-slate-500">Speaking rate</dt>
+          <dd className="text-slate-200">{features.speakingRate.toFixed(1)} syllables/s</dd>
+          <dd className="text-slate-500">{analysis?.speed || describeSpeed(features)}</dd>
         </div>
-  
-        {/* Expansion */}
-        <button 
-          onClick={() => setExpanded(!expanded)}
-          className="text-xs text-brand-primary hover:text-brand-accent transition-colors flex items-center gap-1 font-medium"
-        >
-          {expanded ? '▼' : '▶'} View detailed shift analysis
-        </button>
-  
-        {expanded && (
-          <div className="mt-4 pt-4 border-t border-white/10 animate-fade-in">
-            <h4 className="text-xs font-bold text-slate-400 uppercase mb-3">Total Axis Movement</h4>
-            <div className="grid grid-cols-5 gap-2 text-center">
-              {Object.entries(totalShift)
-                .filter((entry): entry is [string, number] => entry[0] !== 'summary' && typeof entry[1] === 'number')
-                .map(([axis, shift]) => (
-                <div key={axis} className="bg-slate-800/30 rounded-lg p-2">
-                  <div className="text-[10px] text-slate-500 capitalize mb-1">{axis.slice(0,3)}</div>
-                  <div className={`text-xs font-bold ${
-                    shift > 0 ? 'text-teal-400' : 
-                    shift < 0 ? 'text-purple-400' : 'text-slate-400'
-                  }`}>
-                    {shift > 0 ? '+' : ''}{shift.toFixed(2)}
-                  </div>
-                </div>
-              ))}
+        <div>
+          <dt className="text-slate-500">Pauses</dt>
+          <dd className="text-slate-200">{Math.round(features.pauseRatio * 100)}% of {features.durationSec.toFixed(1)}s</dd>
+        </div>
+      </dl>
+    )}
+  </div>
+);
+
+const SOURCE_ICONS: Record<AnalysisSource, string> = { sliders: '🎚️', voice: '🎙️', journal: '📓' };
+
+// Where the suggestion came from: each source's weight and how it moved the axes.
+const SourceBreakdown = ({ contributions }: { contributions: ModalityContribution[] }) => (
+  <div className="bg-slate-800/50 p-3 rounded-lg border border-white/5 mb-4">
+    <p className="text-xs text-brand-primary font-bold uppercase mb-2">Where this came from</p>
+    <div className="flex h-2 rounded-full overflow-hidden mb-3">
+      {contributions.map(c => (
+        <div key={c.source} className={c.source === 'sliders' ? 'bg-brand-accent' : c.source === 'voice' ? 'bg-orange-400' : 'bg-brand-primary'} style={{ width: `${c.weight * 100}%` }} />
+      ))}
+    </div>
+    <ul className="space-y-2">
+      {contributions.map(c => {
+        const moved = AXES.filter(axis => Math.abs(c.axis_shifts[axis]) >= ISO_EPSILON);
+        return (
+          <li key={c.source} className="text-[11px]">
+            <div className="flex justify-between text-slate-300">
+              <span>{SOURCE_ICONS[c.source]} {SOURCE_LABELS[c.source]}</span>
+              <span className="font-mono text-slate-400">{Math.round(c.weight * 100)}%</span>
             </div>
-            
-            {isoInsight && (
-              <div className="mt-4 p-3 bg-brand-primary/10 rounded-lg border border-brand-primary/20">
-                <p className="text-xs text-brand-primary">💡 {isoInsight}</p>
+            {c.note && <p className="text-slate-500">{c.note}</p>}
+            {moved.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {moved.map(axis => (
+                  <span key={axis} className={`px-1.5 py-0.5 rounded bg-slate-900/60 ${c.axis_shifts[axis] > 0 ? 'text-teal-400' : 'text-purple-400'}`}>
+                    {axis} {c.axis_shifts[axis] > 0 ? '+' : ''}{c.axis_shifts[axis].toFixed(2)}
+                  </span>
+                ))}
               </div>
             )}
-          </div>
-        )}
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+const JournalEntryPicker = ({ fileName, entries, selected, onChange, onClear }: {
+  fileName: string;
+  entries: JournalEntry[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  onClear: () => void;
+}) => {
+  const toggle = (id: string) => onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  const selectedChars = entries.filter(e => selected.includes(e.id)).reduce((sum, e) => sum + e.text.length, 0);
+  const requests = chunkJournalEntries(entries.filter(e => selected.includes(e.id))).length;
+  const readNote = requests > MAX_JOURNAL_REQUESTS
+    ? ` · only the newest ${MAX_JOURNAL_REQUESTS} of ${requests} parts are read`
+    : requests > 1 ? ` · read in ${requests} parts, newest first` : '';
+
+  return (
+    <div className="mb-3 bg-slate-800/40 rounded-xl border border-white/5 p-3 animate-fade-in">
+      <div className="flex justify-between items-center mb-2 text-[11px]">
+        <span className="text-slate-300 truncate" title={fileName}>📓 {entries.length} entries from {fileName}</span>
+        <div className="flex gap-3 text-slate-400">
+          <button onClick={() => onChange(entries.map(e => e.id))} className="hover:text-white">All</button>
+          <button onClick={() => onChange([])} className="hover:text-white">None</button>
+          <button onClick={onClear} className="hover:text-red-300">Remove</button>
+        </div>
       </div>
-    );
-  };
+      <ul className="max-h-48 overflow-y-auto space-y-1 pr-1">
+        {entries.map(entry => (
+          <li key={entry.id}>
+            <label className="flex gap-2 items-start text-xs cursor-pointer rounded-lg px-2 py-1 hover:bg-white/5">
+              <input type="checkbox" checked={selected.includes(entry.id)} onChange={() => toggle(entry.id)} className="mt-0.5 accent-brand-primary" />
+              <span className="font-mono text-slate-500 w-20 flex-shrink-0">{entry.date ?? 'undated'}</span>
+              <span className="text-slate-300 truncate flex-grow">{entry.title === entry.date ? entry.text.slice(0, 60) : entry.title}</span>
+              <span className="text-slate-600 flex-shrink-0">{entry.text.length.toLocaleString()} ch</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <p className="text-[10px] text-slate-500 mt-2">
+        {selected.length} selected · {selectedChars.toLocaleString()} characters{readNote}
+      </p>
+    </div>
+  );
+};
 
-const AxisRadarChart = ({ current, target, suggestion }: { current: AxisState; target?: AxisState, suggestion?: AxisState }) => {
+// How the selected journal entries read, axis by axis, oldest to newest.
+const EntryTrendChart = ({ trend }: { trend: JournalTrendPoint[] }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const chartInstanceRef = useRef<any>(null);
 
@@ -635,178 +3872,935 @@ const AxisRadarChart = ({ current, target, suggestion }: { current: AxisState; t
     const ctx = canvasRef.current.getContext("2d");
     if (!ctx) return;
 
-    // Aurora Gradient for Chart Fill
-    const gradient = ctx.createLinearGradient(0, 0, 0, 400);
-    gradient.addColorStop(0, 'rgba(45, 212, 191, 0.4)'); // Teal
-    gradient.addColorStop(0.5, 'rgba(167, 139, 250, 0.3)'); // Purple
-    gradient.addColorStop(1, 'rgba(244, 114, 182, 0.1)'); // Pink
-
-    const datasets: any[] = [
-      {
-        label: 'My Settings',
-        data: [current.energy, current.reality, current.temporal, current.repetition, current.hedonic],
-        backgroundColor: gradient,
-        borderColor: '#2DD4BF', // Bright Teal Border
-        borderWidth: 2,
-        pointBackgroundColor: '#fff',
-        pointBorderColor: '#2DD4BF',
-        pointBorderWidth: 2,
-        pointRadius: 4,
-        pointHoverRadius: 6
+    const colors: Record<AxisKey, string> = { energy: '#ec4899', reality: '#22d3ee', temporal: '#34d399', repetition: '#fbbf24', hedonic: '#e879f9' };
+    chartInstanceRef.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels: trend.map(p => p.date ?? p.title),
+        datasets: AXES.map(axis => ({
+          label: axis,
+          data: trend.map(p => p.state[axis]),
+          borderColor: colors[axis],
+          backgroundColor: colors[axis],
+          borderWidth: 1.5,
+          pointRadius: 2,
+          tension: 0.3
+        }))
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          y: { min: -1, max: 1, grid: { color: 'rgba(255, 255, 255, 0.05)' }, ticks: { color: '#94a3b8', font: { family: 'Outfit', size: 10 } } },
+          x: { grid: { display: false }, ticks: { color: '#94a3b8', font: { family: 'Outfit', size: 10 }, maxRotation: 0, autoSkip: true } }
+        },
+        plugins: {
+          legend: { labels: { color: '#cbd5e1', font: { family: 'Outfit', size: 10 }, boxWidth: 10 } },
+          tooltip: { callbacks: { title: (items: any[]) => trend[items[0].dataIndex].title } }
+        }
       }
-    ];
+    });
+    return () => { if (chartInstanceRef.current) chartInstanceRef.current.destroy(); };
+  }, [trend]);
+
+  return (
+    <div className="bg-slate-800/50 p-3 rounded-lg border border-white/5 mb-4">
+      <p className="text-xs text-brand-primary font-bold uppercase mb-2">Across your journal entries</p>
+      <div className="relative h-48 w-full"><canvas ref={canvasRef} /></div>
+    </div>
+  );
+};
+
+const MODALITY_LABELS: Record<InputModality, string> = {
+  SLIDERS: '🎚️ Sliders',
+  VOICE: '🎙️ Voice',
+  TEXT: '📓 Journal',
+  COMBINED: '🎙️📓 Voice + Journal'
+};
+
+const ExportMenu = ({ onExport }: { onExport: (format: ExportFormat) => void }) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="relative">
+      <button
+         onClick={() => setOpen(o => !o)}
+         className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold"
+       >
+         Export
+       </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 glass-panel rounded-xl p-1 min-w-[12rem] animate-fade-in">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => { onExport(format.id); setOpen(false); }}
+              className="block w-full text-left px-3 py-2 rounded-lg text-xs text-slate-300 hover:bg-white/10 hover:text-white transition-colors"
+            >
+              {format.label} <span className="text-slate-500">.{format.id}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// A journey opened from a share link: the PLAYLIST layout without anything that edits, saves or calls the AI.
+const SharedJourneyView = ({ journey, onStartOwn }: { journey: SharedJourney; onStartOwn: () => void }) => {
+  const [activeAxis, setActiveAxis] = useState<string>('energy');
+  const { songs } = journey.playlist;
+
+  return (
+    <div className="w-full max-w-5xl animate-fade-in pb-20">
+      <div className="flex justify-between items-end mb-8 px-2">
+        <div>
+          <h2 className="text-4xl font-display font-bold text-white">A Shared Journey</h2>
+          <div className="h-1 w-20 bg-brand-primary mt-2 rounded-full shadow-[0_0_10px_rgba(45,212,191,0.8)]" />
+          <p className="text-xs text-slate-400 mt-3">Someone shared this TherapyTune journey with you. It is read-only.</p>
+        </div>
+        <button onClick={onStartOwn} className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold">
+          Make Your Own
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <div className="lg:col-span-4 space-y-6">
+          <div className="glass-panel rounded-2xl p-6">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">Emotional Journey</span>
+            <AxisSelector active={activeAxis} onChange={setActiveAxis} />
+            <JourneyGraph songs={songs} initialState={journey.start} targetState={journey.target} activeAxis={activeAxis as AxisKey} />
+          </div>
+
+          {journey.genres.length > 0 && (
+            <div className="glass-panel rounded-2xl p-6">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">Preferred Genres</span>
+              <div className="flex flex-wrap gap-2">
+                {journey.genres.map(gid => {
+                  const g = GENRE_OPTIONS.find(opt => opt.id === gid);
+                  return <span key={gid} className="text-xs bg-brand-primary/10 text-brand-primary px-2 py-1 rounded border border-brand-primary/20">{g?.emoji} {g?.label ?? gid}</span>;
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-8">
+          <ISOExplanation
+            initialState={journey.start}
+            target={journey.target}
+            goalLabel={journey.goalLabel}
+            journeyNarrative={journey.playlist.journey_narrative}
+            isoInsight={journey.playlist.iso_insight}
+            totalShift={journey.playlist.total_shift}
+            songCount={songs.length}
+            totalSec={totalSeconds(songs)}
+          />
+
+          {songs.map((song, idx) => (
+            <SongCard
+              key={idx}
+              song={song}
+              index={idx}
+              songCount={songs.length}
+              elapsedSec={totalSeconds(songs.slice(0, idx + 1))}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// A print-ready record of one session. The same markup is printed (via the
+// browser's print-to-PDF) and saved as a standalone HTML file.
+const SessionReport = ({ session, clientName, onBack }: { session: SessionRecord; clientName?: string; onBack: () => void }) => {
+  const reportRef = useRef<HTMLDivElement>(null);
+  const { playlist, goal } = session;
+  const songs = playlist.songs;
+  const lastSong = songs[songs.length - 1];
+  const endState = session.outcome?.state ?? lastSong.target_state;
+  const insight = isoInsightFor(session.finalState, goal.target, goal.label);
+  const voice = session.acceptedSuggestion;
+  const features = voice?.voice_features;
+  const title = `${journeyTitle(session)}${clientName ? ` · ${clientName}` : ''}`;
+
+  const downloadHtml = () => {
+    if (!reportRef.current) return;
+    downloadFile(reportFileName(session), buildStandaloneReport(reportRef.current, title), 'text/html;charset=utf-8');
+  };
+
+  return (
+    <div className="w-full max-w-5xl animate-fade-in">
+      <style>{REPORT_CSS}</style>
+      <div className="flex justify-between items-center mb-6 px-2">
+        <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold">
+          ← Back to Journey
+        </button>
+        <div className="flex gap-3">
+          <button onClick={() => window.print()} className="px-4 py-2 rounded-lg bg-aurora text-slate-900 text-sm font-bold hover:brightness-110 transition-all">
+            Print / Save as PDF
+          </button>
+          <button onClick={downloadHtml} className="px-4 py-2 rounded-lg border border-white/10 text-slate-200 text-sm hover:bg-white/5 transition-colors">
+            Download HTML
+          </button>
+        </div>
+      </div>
+
+      <div ref={reportRef} className="tt-report">
+        <h1>TherapyTune Session Report</h1>
+        <p className="tt-meta">
+          {clientName && <>Client: <strong>{clientName}</strong> · </>}
+          {new Date(session.createdAt).toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'short' })} · {MODALITY_LABELS[session.modality]} ·
+          {' '}Goal: {goal.emoji} {goal.label} · {songs.length} songs, {formatDuration(totalSeconds(songs))}
+        </p>
+
+        <h2>Emotional state</h2>
+        <div className="tt-grid">
+          <div className="tt-chart">
+            <h3>Start · {describeState(session.finalState)}</h3>
+            <AxisRadarChart current={session.finalState} target={goal.target} />
+          </div>
+          <div className="tt-chart">
+            <h3>{session.outcome ? 'After the session (measured)' : 'End of the journey (planned)'} · {describeState(endState)}</h3>
+            <AxisRadarChart current={endState} target={goal.target} />
+          </div>
+        </div>
+        {session.outcome && (
+          <p className="tt-meta" style={{ marginTop: 8 }}>
+            Distance to target: {session.outcome.distanceBefore.toFixed(2)} before, {session.outcome.distanceAfter.toFixed(2)} after.
+          </p>
+        )}
+
+        <h2>Journey by axis</h2>
+        <div className="tt-grid">
+          {AXES.map(axis => (
+            <div key={axis} className="tt-chart">
+              <h3>{axis}</h3>
+              <JourneyGraph songs={songs} initialState={session.finalState} targetState={goal.target} activeAxis={axis} checkIns={session.checkIns} />
+            </div>
+          ))}
+        </div>
+
+        <h2>ISO Principle</h2>
+        <div className="tt-insight">
+          <h3>{insight.title}</h3>
+          <p>{insight.body}</p>
+          <p className="tt-citation">{insight.citation}</p>
+        </div>
+        {playlist.journey_narrative && <p>{playlist.journey_narrative}</p>}
+        {playlist.iso_insight && <p className="tt-meta">{playlist.iso_insight}</p>}
+
+        <h2>Songs</h2>
+        <table className="tt-table">
+          <thead>
+            <tr><th>#</th><th>Song</th><th>Length</th><th>Note</th><th>Shift from previous</th></tr>
+          </thead>
+          <tbody>
+            {songs.map((song, i) => (
+              <tr key={i}>
+                <td>{i + 1}</td>
+                <td><span className="tt-swatch" style={{ backgroundColor: song.color_hex }} /><strong>{song.title}</strong><br /><span className="tt-meta">{song.artist}</span></td>
+                <td>{formatDuration(songSeconds(song))}</td>
+                <td>{song.therapeutic_note}{song.feedback && <span className="tt-meta"> · Rated: {song.feedback}</span>}</td>
+                <td className="tt-shifts">{formatShifts(song.axis_shifts)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {(voice?.voice_analysis || features) && (
+          <>
+            <h2>Voice</h2>
+            {voice?.voice_analysis?.note && <p>"{voice.voice_analysis.note}"</p>}
+            <dl className="tt-facts">
+              <div>
+                <dt>Pitch</dt>
+                <dd>{voice?.voice_analysis?.pitch || (features ? describePitch(features) : '—')}</dd>
+              </div>
+              <div>
+                <dt>Stability</dt>
+                <dd>
+                  {voice?.voice_analysis?.stability || (features ? describeStability(features) : '—')}
+                  {features?.jitterPct != null && ` (jitter ${features.jitterPct.toFixed(1)}%, shimmer ${(features.shimmerPct ?? 0).toFixed(1)}%)`}
+                </dd>
+              </div>
+              <div>
+                <dt>Speaking rate</dt>
+                <dd>
+                  {voice?.voice_analysis?.speed || (features ? describeSpeed(features) : '—')}
+                  {features && ` (${features.speakingRate.toFixed(1)} syllables/s)`}
+                </dd>
+              </div>
+              {features && (
+                <div>
+                  <dt>Pauses</dt>
+                  <dd>{Math.round(features.pauseRatio * 100)}% of {features.durationSec.toFixed(1)}s</dd>
+                </div>
+              )}
+            </dl>
+          </>
+        )}
+
+        {session.clinicalNotes && (
+          <>
+            <h2>Clinical notes</h2>
+            <p className="tt-notes">{session.clinicalNotes}</p>
+          </>
+        )}
+
+        <p className="tt-disclaimer">DISCLAIMER: {DISCLAIMER}</p>
+      </div>
+    </div>
+  );
+};
 
-    if (suggestion) {
-       datasets.push({
-        label: 'Suggested',
-        data: [suggestion.energy, suggestion.reality, suggestion.temporal, suggestion.repetition, suggestion.hedonic],
-        backgroundColor: 'rgba(251, 146, 60, 0.2)', // Orange tint
-        borderColor: '#FB923C',
-        borderWidth: 2,
-        pointBackgroundColor: '#FB923C',
-        pointBorderColor: '#fff',
-        pointBorderWidth: 1,
-        pointRadius: 3
-       });
-    }
+const HistoryView = ({ sessions, onOpen, onDelete, onBack }: {
+  sessions: SessionRecord[] | null;
+  onOpen: (session: SessionRecord) => void;
+  onDelete: (session: SessionRecord) => void;
+  onBack: () => void;
+}) => (
+  <div className="w-full max-w-3xl glass-panel rounded-3xl p-8 animate-fade-in-up">
+    <div className="flex justify-between items-end mb-6">
+      <div>
+        <h2 className="text-2xl font-display font-bold text-white">Past Journeys</h2>
+        <div className="h-1 w-16 bg-brand-accent mt-2 rounded-full" />
+      </div>
+      <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors text-xs uppercase tracking-widest font-bold">
+        Back
+      </button>
+    </div>
 
-    if (target) {
-       datasets.push({
-        label: 'Target',
-        data: [target.energy, target.reality, target.temporal, target.repetition, target.hedonic],
-        backgroundColor: 'transparent',
-        borderColor: 'rgba(255, 255, 255, 0.3)',
-        borderWidth: 1,
-        borderDash: [5, 5],
-        pointRadius: 0
-      });
-    }
+    {sessions === null ? (
+      <p className="text-sm text-slate-400 text-center py-12 animate-pulse">Loading your history...</p>
+    ) : sessions.length === 0 ? (
+      <p className="text-sm text-slate-400 text-center py-12">No journeys yet. Your sessions will appear here once you generate a playlist.</p>
+    ) : (
+      <ul className="space-y-3 max-h-[60vh] overflow-y-auto pr-2">
+        {sessions.map(session => {
+          const songs = session.playlist.songs;
+          return (
+            <li key={session.id} className="glass-card rounded-xl p-4 flex gap-4 items-center">
+              <div className="flex h-10 w-3 rounded-full overflow-hidden flex-col flex-shrink-0">
+                {songs.map((song, i) => <div key={i} className="flex-1" style={{ backgroundColor: song.color_hex }} />)}
+              </div>
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center gap-2 text-xs text-slate-400 mb-1">
+                  <span>{new Date(session.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                  <span className="text-slate-600">·</span>
+                  <span>{MODALITY_LABELS[session.modality]}</span>
+                </div>
+                <p className="text-sm text-white truncate">
+                  {songs[0]?.title} <span className="text-slate-500">→</span> {songs[songs.length - 1]?.title}
+                </p>
+                <p className="text-[11px] text-slate-500 truncate">
+                  Started {describeState(session.startState)}
+                  {session.genres.length > 0 && ` · ${session.genres.map(id => GENRE_OPTIONS.find(g => g.id === id)?.label ?? id).join(', ')}`}
+                  {session.outcome && ` · distance to target ${session.outcome.distanceBefore.toFixed(2)} → ${session.outcome.distanceAfter.toFixed(2)}`}
+                </p>
+                {session.clinicalNotes && <p className="text-[11px] text-slate-400 truncate mt-0.5">🩺 {session.clinicalNotes}</p>}
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button onClick={() => onOpen(session)} className="text-xs px-3 py-1.5 rounded-full bg-brand-primary/20 border border-brand-primary/40 text-brand-primary hover:bg-brand-primary/30 transition-colors">
+                  Open
+                </button>
+                <button onClick={() => onDelete(session)} aria-label="Delete session" className="text-xs px-3 py-1.5 rounded-full border border-white/10 text-slate-400 hover:text-red-300 hover:border-red-500/30 transition-colors">
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    )}
+  </div>
+);
+
+const TrendChart = ({ trends, axis }: { trends: MoodTrends; axis: AxisKey }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const chartInstanceRef = useRef<any>(null);
 
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    if (chartInstanceRef.current) chartInstanceRef.current.destroy();
+    const ctx = canvasRef.current.getContext("2d");
+    if (!ctx) return;
+
+    const band = (value: number) => trends.checkIns.map(() => value);
     chartInstanceRef.current = new Chart(ctx, {
-      type: 'radar',
+      type: 'line',
       data: {
-        labels: ['Energy', 'Reality', 'Temporal', 'Repetition', 'Hedonic'],
-        datasets: datasets
+        labels: trends.checkIns.map(c => c.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })),
+        datasets: [
+          { label: 'Started at', data: trends.checkIns.map(c => c.start[axis]), borderColor: '#F472B6', backgroundColor: '#F472B6', borderWidth: 1.5, pointRadius: 3, tension: 0.3 },
+          { label: 'Accepted', data: trends.checkIns.map(c => c.accepted[axis]), borderColor: '#A78BFA', backgroundColor: '#A78BFA', borderWidth: 1.5, borderDash: [4, 4], pointRadius: 2, tension: 0.3 },
+          { label: `${ROLLING_WINDOW_DAYS}-day average`, data: trends.rolling[axis], borderColor: '#2DD4BF', backgroundColor: 'transparent', borderWidth: 3, pointRadius: 0, tension: 0.4 },
+          { label: 'Healthy band', data: band(HEALTHY_BAND), borderColor: 'rgba(45, 212, 191, 0.25)', backgroundColor: 'rgba(45, 212, 191, 0.08)', borderWidth: 1, pointRadius: 0, fill: '+1' },
+          { label: '', data: band(-HEALTHY_BAND), borderColor: 'rgba(45, 212, 191, 0.25)', borderWidth: 1, pointRadius: 0 }
+        ]
       },
       options: {
         responsive: true,
         maintainAspectRatio: false,
-        animation: { duration: 1000 },
         scales: {
-          r: {
-            angleLines: { color: 'rgba(255, 255, 255, 0.05)' },
-            grid: { color: 'rgba(255, 255, 255, 0.05)' },
-            pointLabels: { color: '#94a3b8', font: { family: 'Outfit', size: 10, weight: 600 } },
-            ticks: { display: false, backdropColor: 'transparent' },
-            min: -1,
-            max: 1
-          }
+          y: { min: -1, max: 1, grid: { color: 'rgba(255, 255, 255, 0.05)' }, ticks: { color: '#94a3b8', font: { family: 'Outfit', size: 10 } } },
+          x: { grid: { display: false }, ticks: { color: '#94a3b8', font: { family: 'Outfit', size: 10 }, maxRotation: 0, autoSkip: true } }
         },
-        plugins: { 
-            legend: { 
-                display: true, 
-                labels: { color: '#cbd5e1', font: {family: 'Outfit'} } 
-            } 
+        plugins: {
+          legend: { labels: { color: '#cbd5e1', font: { family: 'Outfit' }, filter: (item: any) => item.text !== '' } }
         }
       }
     });
     return () => { if (chartInstanceRef.current) chartInstanceRef.current.destroy(); };
-  }, [current, target, suggestion]);
-  return <div className="relative h-64 w-full chart-container"><canvas ref={canvasRef} /></div>;
+  }, [trends, axis]);
+
+  return <div className="relative h-64 w-full"><canvas ref={canvasRef} /></div>;
 };
 
-// Updated Chakra Slider with specific gradients
-const AxisSlider = ({ label, lowLabel, highLabel, value, onChange, gradient }: { label: string, lowLabel: string, highLabel: string, value: number, onChange: (v: number) => void, gradient: string }) => (
-  <div className="mb-5 animate-fade-in-up">
-    <div className="flex justify-between text-xs text-slate-400 mb-2 font-medium tracking-wide">
-      <span className="w-20 text-left opacity-70">{lowLabel}</span>
-      <span className="text-white font-bold tracking-widest uppercase">{label}</span>
-      <span className="w-20 text-right opacity-70">{highLabel}</span>
+const DASHBOARD_RANGES: { id: string; label: string; days: number | null }[] = [
+  { id: '7d', label: '7 days', days: 7 },
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: 'all', label: 'All time', days: null },
+];
+
+const OutcomeGroupList = ({ title, groups }: { title: string; groups: OutcomeGroup[] }) => {
+  const scale = Math.max(...groups.map(g => Math.abs(g.improvement)), ISO_EPSILON);
+  return (
+    <div>
+      <h4 className="text-[11px] text-slate-300 mb-2">{title}</h4>
+      <div className="space-y-2">
+        {groups.slice(0, 4).map(group => (
+          <div key={group.label}>
+            <div className="flex justify-between text-[11px] mb-1">
+              <span className="text-slate-300 truncate capitalize">{group.label}</span>
+              <span className="text-slate-500 flex-shrink-0 ml-2">{group.improvement > 0 ? '+' : ''}{group.improvement.toFixed(2)} · {group.sessions}×</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-slate-700/50 overflow-hidden">
+              <div className={`h-full ${group.improvement >= 0 ? 'bg-aurora' : 'bg-red-400/60'}`} style={{ width: `${Math.abs(group.improvement) / scale * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
     </div>
-    <div className="relative h-4 w-full flex items-center">
-        {/* Custom Track Background */}
-        <div 
-            className="absolute w-full h-1.5 rounded-full opacity-80"
-            style={{ background: gradient }}
-        />
-        <input 
-        type="range" 
-        min="-1" max="1" step="0.1" 
-        value={value}
-        aria-label={`${label} slider`}
-        aria-valuemin={-1}
-        aria-valuemax={1}
-        aria-valuenow={value}
-        onChange={(e) => onChange(parseFloat(e.target.value))}
-        className="w-full absolute z-10 appearance-none cursor-pointer h-full opacity-100 bg-transparent focus:outline-none"
-        />
+  );
+};
+
+const MoodDashboard = ({ sessions, onBack }: { sessions: SessionRecord[] | null; onBack: () => void }) => {
+  const [rangeId, setRangeId] = useState('30d');
+  const [activeAxis, setActiveAxis] = useState<string>('energy');
+  const axis = activeAxis as AxisKey;
+
+  const trends = useMemo(() => {
+    const range = DASHBOARD_RANGES.find(r => r.id === rangeId);
+    const since = range?.days ? Date.now() - range.days * DAY_MS : 0;
+    return computeMoodTrends(sessions ?? [], since);
+  }, [sessions, rangeId]);
+
+  const insights = useMemo(() => {
+    const range = DASHBOARD_RANGES.find(r => r.id === rangeId);
+    const since = range?.days ? Date.now() - range.days * DAY_MS : 0;
+    return computeOutcomeInsights((sessions ?? []).filter(s => s.createdAt >= since));
+  }, [sessions, rangeId]);
+
+  // Weekday cells are tinted by how far the mean sits from the centre.
+  const cellStyle = (value: number | null) => value === null
+    ? { backgroundColor: 'rgba(255, 255, 255, 0.02)' }
+    : { backgroundColor: value < 0 ? `rgba(59, 130, 246, ${Math.abs(value) * 0.6})` : `rgba(239, 68, 68, ${value * 0.6})` };
+
+  return (
+    <div className="w-full max-w-5xl glass-panel rounded-3xl p-8 animate-fade-in-up">
+      <div className="flex justify-between items-end mb-6">
+        <div>
+          <h2 className="text-2xl font-display font-bold text-white">Mood Trends</h2>
+          <div className="h-1 w-16 bg-brand-primary mt-2 rounded-full" />
+        </div>
+        <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors text-xs uppercase tracking-widest font-bold">
+          Back
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {DASHBOARD_RANGES.map(range => (
+          <button
+            key={range.id}
+            onClick={() => setRangeId(range.id)}
+            className={`px-3 py-1 rounded-full text-xs border transition-all ${rangeId === range.id ? 'border-brand-primary text-brand-primary bg-brand-primary/10' : 'border-white/10 text-slate-400 hover:text-white'}`}
+          >
+            {range.label}
+          </button>
+        ))}
+      </div>
+
+      {sessions === null ? (
+        <p className="text-sm text-slate-400 text-center py-12 animate-pulse">Loading your check-ins...</p>
+      ) : trends.checkIns.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-12">No check-ins in this period yet. Each journey you create is recorded as a check-in.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-slate-800/40 rounded-2xl p-5 border border-white/5">
+            <AxisSelector active={activeAxis} onChange={setActiveAxis} />
+            <TrendChart trends={trends} axis={axis} />
+            <p className="text-[10px] text-slate-500 mt-2 text-center">
+              {trends.checkIns.length} check-in{trends.checkIns.length === 1 ? '' : 's'} · shaded area is the ±{HEALTHY_BAND} healthy band
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-slate-800/40 rounded-2xl p-5 border border-white/5">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Outside the healthy band</h3>
+              <div className="space-y-2">
+                {AXES.map(a => (
+                  <div key={a}>
+                    <div className="flex justify-between text-[11px] text-slate-300 mb-1">
+                      <span className="capitalize">{a}</span>
+                      <span className="text-slate-500">{Math.round(trends.outsideBand[a].share * 100)}% · {trends.outsideBand[a].days} day{trends.outsideBand[a].days === 1 ? '' : 's'}</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-slate-700/50 overflow-hidden">
+                      <div className="h-full bg-aurora" style={{ width: `${trends.outsideBand[a].share * 100}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-slate-800/40 rounded-2xl p-5 border border-white/5">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">By weekday</h3>
+              <div className="grid grid-cols-8 gap-1 text-[9px] text-center">
+                <div />
+                {WEEKDAYS.map(day => <div key={day} className="text-slate-500">{day}</div>)}
+                {AXES.map(a => (
+                  <React.Fragment key={a}>
+                    <div className="text-slate-400 uppercase text-left">{a.slice(0, 3)}</div>
+                    {trends.weekday[a].map((value, i) => (
+                      <div key={i} className="rounded h-6 flex items-center justify-center text-slate-200" style={cellStyle(value)} title={value === null ? 'No check-ins' : value.toFixed(2)}>
+                        {value === null ? '' : value.toFixed(1)}
+                      </div>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500 mt-2">Average starting value per weekday (blue = low, red = high).</p>
+            </div>
+          </div>
+
+          <div className="lg:col-span-3 bg-slate-800/40 rounded-2xl p-5 border border-white/5">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">What helps most</h3>
+            {insights.measured === 0 ? (
+              <p className="text-[11px] text-slate-500">Check in after the last song of a journey to see which genres, starting points and pacing move you closest to a healthy baseline.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <OutcomeGroupList title="Genres" groups={insights.byGenre} />
+                  <OutcomeGroupList title="Starting from" groups={insights.byStart} />
+                  <OutcomeGroupList title="Pacing" groups={insights.byShape} />
+                </div>
+                <p className="text-[10px] text-slate-500 mt-3">
+                  Average move toward a healthy baseline across {insights.measured} measured journey{insights.measured === 1 ? '' : 's'}. The best ones are shared with the playlist generator as examples.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
     </div>
-  </div>
+  );
+};
+
+const AXIS_SLIDERS: { axis: AxisKey; label: string; lowLabel: string; highLabel: string; gradient: string }[] = [
+  { axis: 'energy', label: 'Energy', lowLabel: 'Exhausted', highLabel: 'Wired', gradient: 'linear-gradient(90deg, #4f46e5 0%, #ec4899 100%)' },
+  { axis: 'reality', label: 'Reality', lowLabel: 'Foggy', highLabel: 'On Edge', gradient: 'linear-gradient(90deg, #2563eb 0%, #22d3ee 100%)' },
+  { axis: 'temporal', label: 'Temporal', lowLabel: 'Past', highLabel: 'Future', gradient: 'linear-gradient(90deg, #0d9488 0%, #34d399 100%)' },
+  { axis: 'repetition', label: 'Repetition', lowLabel: 'Bored', highLabel: 'Obsessing', gradient: 'linear-gradient(90deg, #ea580c 0%, #fbbf24 100%)' },
+  { axis: 'hedonic', label: 'Hedonic', lowLabel: 'Numb', highLabel: 'Overwhelmed', gradient: 'linear-gradient(90deg, #c026d3 0%, #e879f9 100%)' },
+];
+
+const AxisSliderGroup = ({ state, onChange }: { state: AxisState; onChange: (axis: AxisKey, value: number) => void }) => (
+  <>
+    {AXIS_SLIDERS.map(({ axis, label, lowLabel, highLabel, gradient }) => (
+      <React.Fragment key={axis}>
+        <AxisSlider
+          label={label}
+          lowLabel={lowLabel}
+          highLabel={highLabel}
+          value={state[axis]}
+          onChange={(v) => onChange(axis, v)}
+          gradient={gradient}
+        />
+      </React.Fragment>
+    ))}
+  </>
 );
 
-const GenreSelector = ({ selected, setSelected, excluded, setExcluded }: { 
-    selected: string[], 
-    setSelected: (s: string[]) => void, 
-    excluded: string[], 
-    setExcluded: (s: string[]) => void 
-}) => (
-  <div className="mb-8 animate-fade-in">
-    <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
-      <span className="text-aurora">🎵 What music do you like?</span>
-    </h3>
-    <div className="flex flex-wrap gap-2 mb-4">
-      {GENRE_OPTIONS.map((genre) => (
+// One axis of an AI suggestion: take the suggested value, keep your own, or
+// nudge anywhere in between with the slider.
+const AxisReview = ({ axis, mine, suggested, value, insight, onChange }: {
+  axis: AxisKey;
+  mine: number;
+  suggested: number;
+  value: number;
+  insight?: AxisInsight;
+  onChange: (value: number) => void;
+}) => {
+  const { label, lowLabel, highLabel, gradient } = AXIS_SLIDERS.find(s => s.axis === axis)!;
+  const choice = value === suggested ? 'suggested' : value === mine ? 'mine' : 'nudged';
+
+  return (
+    <div className="mb-2">
+      <AxisSlider label={label} lowLabel={lowLabel} highLabel={highLabel} value={value} onChange={onChange} gradient={gradient} />
+      <div className="-mt-3 mb-1 flex items-center justify-between gap-2 text-[11px]">
+        <div className="flex gap-1">
+          <button
+            onClick={() => onChange(suggested)}
+            className={`px-2 py-0.5 rounded-full border transition-colors ${choice === 'suggested' ? 'border-orange-400/60 text-orange-300 bg-orange-400/10' : 'border-white/10 text-slate-500 hover:text-slate-300'}`}
+          >
+            ✓ AI {suggested.toFixed(2)}
+          </button>
+          <button
+            onClick={() => onChange(mine)}
+            className={`px-2 py-0.5 rounded-full border transition-colors ${choice === 'mine' ? 'border-brand-accent/60 text-brand-accent bg-brand-accent/10' : 'border-white/10 text-slate-500 hover:text-slate-300'}`}
+          >
+            ✕ Mine {mine.toFixed(2)}
+          </button>
+          {choice === 'nudged' && <span className="px-2 py-0.5 text-slate-300">Nudged to {value.toFixed(2)}</span>}
+        </div>
+        {insight && (
+          <span className={`font-mono ${insight.confidence >= 0.7 ? 'text-teal-400' : insight.confidence >= 0.4 ? 'text-slate-400' : 'text-amber-300'}`}>
+            {Math.round(insight.confidence * 100)}% sure
+          </span>
+        )}
+      </div>
+      {insight?.rationale && <p className="text-[11px] text-slate-500 leading-snug">{insight.rationale}</p>}
+    </div>
+  );
+};
+
+const GoalSelector = ({ goal, onChange }: { goal: JourneyGoal; onChange: (goal: JourneyGoal) => void }) => {
+  const [editing, setEditing] = useState(false);
+  const isCustom = goal.id === CUSTOM_GOAL_ID;
+
+  return (
+    <div className="mb-8 animate-fade-in">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <span className="text-aurora">🧭 Where do you want to end up?</span>
+      </h3>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {GOAL_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => { setEditing(false); onChange(preset); }}
+            title={preset.description}
+            className={`px-3 py-2 rounded-full text-xs font-medium transition-all duration-300 flex items-center gap-1 border
+              ${goal.id === preset.id
+                ? 'bg-brand-primary/20 text-brand-primary border-brand-primary/50 font-bold'
+                : 'bg-slate-800/40 text-slate-400 border-white/5 hover:bg-slate-700/50 hover:text-slate-200'
+              }`}
+          >
+            <span>{preset.emoji}</span> {preset.label}
+          </button>
+        ))}
         <button
-          key={genre.id}
-          onClick={() => {
-            if (selected.includes(genre.id)) {
-              setSelected(selected.filter(g => g !== genre.id));
-            } else {
-              setSelected([...selected, genre.id]);
-              setExcluded(excluded.filter(g => g !== genre.id));
-            }
-          }}
+          onClick={() => { setEditing(!editing || !isCustom); if (!isCustom) onChange(customGoal({ ...goal.target })); }}
           className={`px-3 py-2 rounded-full text-xs font-medium transition-all duration-300 flex items-center gap-1 border
-            ${selected.includes(genre.id) 
-              ? 'bg-aurora text-slate-900 border-transparent shadow-[0_0_15px_rgba(167,139,250,0.5)] transform scale-105 font-bold' 
-              : 'bg-slate-800/40 text-slate-400 border-white/5 hover:bg-slate-700/50 hover:border-white/10 hover:text-slate-200'
+            ${isCustom
+              ? 'bg-brand-primary/20 text-brand-primary border-brand-primary/50 font-bold'
+              : 'bg-slate-800/40 text-slate-400 border-white/5 hover:bg-slate-700/50 hover:text-slate-200'
             }`}
         >
-          <span>{genre.emoji}</span> {genre.label}
+          <span>✏️</span> Custom
         </button>
-      ))}
+      </div>
+      {isCustom && editing && (
+        <div className="mt-3 p-4 bg-black/20 rounded-xl border border-white/5 animate-fade-in">
+          <AxisSliderGroup state={goal.target} onChange={(axis, value) => onChange(customGoal({ ...goal.target, [axis]: value }))} />
+        </div>
+      )}
     </div>
-    
-    <details className="text-slate-500">
-      <summary className="cursor-pointer text-xs hover:text-slate-300 font-medium transition-colors">
-        ❌ Exclude genres (optional)
-      </summary>
-      <div className="flex flex-wrap gap-2 mt-3 p-3 bg-black/20 rounded-xl border border-white/5">
-        {GENRE_OPTIONS.map((genre) => (
-          <button
-            key={genre.id}
-            onClick={() => {
-              if (excluded.includes(genre.id)) {
-                setExcluded(excluded.filter(g => g !== genre.id));
-              } else {
-                setExcluded([...excluded, genre.id]);
-                setSelected(selected.filter(g => g !== genre.id));
-              }
-            }}
-            className={`px-3 py-1 rounded-full text-[10px] transition-all
-              ${excluded.includes(genre.id) 
-                ? 'bg-red-500/20 text-red-300 border border-red-500/30' 
-                : 'bg-slate-800/40 text-slate-500 hover:bg-slate-700/50'
-              }`}
-          >
-            {genre.label}
+  );
+};
+
+const LengthSelector = ({ length, onChange }: { length: JourneyLength; onChange: (length: JourneyLength) => void }) => {
+  const range = length.mode === "songs" ? SONG_COUNT_RANGE : MINUTES_RANGE;
+  const value = length.mode === "songs" ? length.songs : length.minutes;
+  const setValue = (v: number) => onChange(length.mode === "songs" ? { mode: "songs", songs: v } : { mode: "minutes", minutes: v });
+
+  return (
+    <div className="mb-8 animate-fade-in">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <span className="text-aurora">⏱ How long is the journey?</span>
+      </h3>
+      <div className="flex items-center gap-4">
+        <div className="flex bg-slate-900/50 rounded-lg p-1 border border-white/5">
+          {(["songs", "minutes"] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onChange(mode === "songs" ? { mode, songs: songCountFor(length) } : { mode, minutes: minutesFor(songCountFor(length)) })}
+              className={`px-3 py-1.5 rounded-md text-xs font-bold capitalize transition-all ${length.mode === mode ? 'bg-slate-700 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={length.mode === "minutes" ? MINUTES_RANGE.step : 1}
+          value={value}
+          onChange={(e) => setValue(Number(e.target.value))}
+          className="flex-grow accent-brand-primary"
+        />
+        <span className="text-sm font-mono text-white w-20 text-right">{value} {length.mode === "songs" ? 'songs' : 'min'}</span>
+      </div>
+      {length.mode === "minutes" && (
+        <p className="text-[11px] text-slate-500 mt-2">About {songCountFor(length)} songs at ~{DEFAULT_SONG_SECONDS / 60} minutes each.</p>
+      )}
+    </div>
+  );
+};
+
+// Guided mode: five sliders after a song, starting from where the song was meant to take you.
+const CheckInCard = ({ song, index, isLast, onSubmit, onSkip }: {
+  song: Song;
+  index: number;
+  isLast: boolean;
+  onSubmit: (state: AxisState) => void;
+  onSkip: () => void;
+}) => {
+  const [state, setState] = useState<AxisState>(() => ({ ...song.target_state, summary: undefined }));
+
+  return (
+    <div className="glass-panel rounded-xl p-5 mb-4 border border-amber-400/30 animate-fade-in">
+      <p className="text-xs font-bold text-amber-200 uppercase tracking-wider mb-1">Check-in after song {index + 1}</p>
+      <p className="text-[11px] text-slate-400 mb-4">
+        The sliders start where "{song.title}" was meant to take you. Move them to where you actually are.
+      </p>
+      <AxisSliderGroup state={state} onChange={(axis, value) => setState(prev => ({ ...prev, [axis]: value }))} />
+      <div className="flex gap-3">
+        <button onClick={() => onSubmit(state)} className="flex-1 py-2 rounded-lg bg-amber-400/90 text-slate-900 text-sm font-bold hover:bg-amber-300 transition-colors">
+          {isLast ? 'Save check-in' : 'Adapt the rest from here'}
+        </button>
+        <button onClick={onSkip} className="px-4 py-2 rounded-lg border border-white/10 text-slate-400 text-sm hover:bg-white/5 transition-colors">
+          Skip
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// The post-session check-in after the last song, with how far it leaves the listener from the target.
+const OutcomeCard = ({ lastSong, outcome, onSubmit }: {
+  lastSong: Song;
+  outcome?: JourneyOutcome;
+  onSubmit: (state: AxisState) => void;
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [state, setState] = useState<AxisState>(() => ({ ...(outcome?.state ?? lastSong.target_state), summary: undefined }));
+
+  if (outcome && !editing) {
+    const moved = roundAxis(outcome.distanceBefore - outcome.distanceAfter);
+    const share = outcome.distanceBefore > 0 ? Math.round(moved / outcome.distanceBefore * 100) : 0;
+    return (
+      <div className="glass-panel rounded-xl p-5 mt-6 border border-brand-primary/20 animate-fade-in">
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">After the journey</span>
+          <button onClick={() => setEditing(true)} className="text-[11px] text-slate-400 hover:text-white transition-colors">Check in again</button>
+        </div>
+        <p className="text-sm text-white mt-2">
+          Distance to target: {outcome.distanceBefore.toFixed(2)} <span className="text-slate-500">→</span> {outcome.distanceAfter.toFixed(2)}
+        </p>
+        <p className="text-[11px] text-slate-400 mt-1">
+          {moved > 0 ? `You ended ${share}% of the way closer to your target.` : moved < 0 ? 'You ended further from your target than you started.' : 'You ended about where you started.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-panel rounded-xl p-5 mt-6 border border-brand-primary/20 animate-fade-in">
+      <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">How do you feel now?</p>
+      <p className="text-[11px] text-slate-400 mb-4">
+        Check in after the last song. Over time this shows which journeys help you most.
+      </p>
+      <AxisSliderGroup state={state} onChange={(axis, value) => setState(prev => ({ ...prev, [axis]: value }))} />
+      <button onClick={() => { onSubmit(state); setEditing(false); }} className="w-full py-2 rounded-lg bg-aurora text-slate-900 text-sm font-bold hover:brightness-110 transition-all">
+        Record how I feel
+      </button>
+    </div>
+  );
+};
+
+// Practitioner mode: free-text notes kept with the session, saved when the field loses focus.
+const ClinicalNotes = ({ notes, onSave }: { notes: string; onSave: (notes: string) => void }) => {
+  const [draft, setDraft] = useState(notes);
+
+  return (
+    <div className="glass-panel rounded-xl p-5 mt-6 animate-fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">🩺 Clinical notes</span>
+        <span className="text-[10px] text-slate-500">{draft === notes ? (notes ? 'Saved' : '') : 'Unsaved'}</span>
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => { if (draft !== notes) onSave(draft); }}
+        placeholder="Observations, responses to specific songs, plans for the next session…"
+        className="w-full h-28 bg-slate-900/50 border border-white/10 rounded-lg p-3 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-brand-primary/40 resize-y"
+      />
+    </div>
+  );
+};
+
+const JourneyPlayer = ({ songs, sources, player, crossfadeSec, onCrossfadeChange, onChooseFiles, guided, onGuidedChange }: {
+  songs: Song[];
+  sources: (string | null)[];
+  player: ReturnType<typeof useJourneyPlayer>;
+  crossfadeSec: number;
+  onCrossfadeChange: (sec: number) => void;
+  onChooseFiles: () => void;
+  guided: boolean;
+  onGuidedChange: (guided: boolean) => void;
+}) => {
+  const matched = sources.filter(Boolean).length;
+  const song = player.current !== null ? songs[player.current] : null;
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 mb-6 animate-fade-in">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Play on this device</span>
+        <div className="flex items-center gap-4">
+          <label className="text-[11px] text-slate-400 flex items-center gap-1.5 cursor-pointer" title="Pause after each song to check in, and adapt the rest of the journey to how you feel">
+            <input type="checkbox" checked={guided} onChange={(e) => onGuidedChange(e.target.checked)} className="accent-amber-400" />
+            Guided
+          </label>
+          <button onClick={onChooseFiles} className="text-[11px] text-slate-400 hover:text-white transition-colors">
+            {matched > 0 ? `${matched} of ${songs.length} songs matched · Change files` : 'Choose audio files…'}
           </button>
-        ))}
+        </div>
       </div>
-    </details>
+      {matched === 0 ? (
+        <p className="text-[11px] text-slate-500 mt-2">
+          Pick the songs' audio files (named like "Artist - Title.mp3") to listen here instead of opening YouTube.
+          {guided && ' In guided mode, press "Finished · Check in" on each song as you go.'}
+        </p>
+      ) : (
+        <div className="mt-3 flex items-center gap-3">
+          <button onClick={() => player.skip(-1)} className="text-slate-400 hover:text-white" aria-label="Previous song">⏮</button>
+          <button onClick={player.toggle} className="w-9 h-9 rounded-full bg-aurora text-slate-900 font-bold flex items-center justify-center" aria-label={player.isPlaying ? 'Pause' : 'Play'}>
+            {player.isPlaying ? '⏸' : '▶'}
+          </button>
+          <button onClick={() => player.skip(1)} className="text-slate-400 hover:text-white" aria-label="Next song">⏭</button>
+          <div className="flex-grow min-w-0">
+            <p className="text-xs text-white truncate">{song ? `${player.current! + 1}. ${song.title} — ${song.artist}` : 'Starts with the first matched song'}</p>
+            <div className="h-1 mt-1 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full" style={{ width: `${player.fraction * 100}%`, backgroundColor: song?.color_hex ?? 'transparent' }} />
+            </div>
+          </div>
+          <label className="text-[10px] text-slate-500 flex items-center gap-1 flex-shrink-0">
+            Crossfade
+            <select
+              value={crossfadeSec}
+              disabled={guided}
+              onChange={(e) => onCrossfadeChange(Number(e.target.value))}
+              className="bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-white/10"
+            >
+              {CROSSFADE_OPTIONS_SEC.map(sec => <option key={sec} value={sec}>{sec === 0 ? 'Off' : `${sec}s`}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ClientPanel = ({ clients, activeClient, onSelect, onCreate, onSaveDefaults, onDelete }: {
+  clients: ClientProfile[];
+  activeClient: ClientProfile | null;
+  onSelect: (client: ClientProfile | null) => void;
+  onCreate: () => void;
+  onSaveDefaults: () => void;
+  onDelete: () => void;
+}) => (
+  <div className="mb-8 animate-fade-in">
+    <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+      <span className="text-aurora">🩺 Client</span>
+    </h3>
+    <div className="flex gap-2">
+      <select
+        value={activeClient?.id ?? ''}
+        onChange={(e) => onSelect(clients.find(c => c.id === e.target.value) ?? null)}
+        className="flex-grow bg-slate-900/50 text-slate-200 text-xs rounded-lg px-3 py-2 border border-white/10"
+      >
+        <option value="">No client (your own sessions)</option>
+        {clients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+      </select>
+      <button onClick={onCreate} className="text-xs px-3 py-2 rounded-lg border border-white/10 text-slate-300 hover:text-white hover:bg-white/5 transition-colors flex-shrink-0">
+        + New client
+      </button>
+    </div>
+    {activeClient && (
+      <div className="flex justify-between gap-3 text-[11px] mt-2 px-1">
+        <button onClick={onSaveDefaults} className="text-slate-400 hover:text-white" title="New sessions for this client will start with the genres, exclusions and goal chosen now">
+          Save genres &amp; goal as {activeClient.name}'s defaults
+        </button>
+        <button onClick={onDelete} className="text-slate-400 hover:text-red-300">Delete client</button>
+      </div>
+    )}
   </div>
 );
 
+const CatalogPanel = ({ catalog, onLoad, onRemove }: { catalog: MusicCatalog | null; onLoad: () => void; onRemove: () => void }) => {
+  const placed = catalog ? catalog.tracks.filter(t => t.state).length : 0;
+
+  return (
+    <div className="mb-8 animate-fade-in">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <span className="text-aurora">📚 Music library</span>
+      </h3>
+      {catalog ? (
+        <div className="flex items-center justify-between gap-4 bg-slate-900/50 rounded-lg px-3 py-2 border border-white/5">
+          <p className="text-xs text-slate-300 truncate" title={catalog.fileName}>
+            {catalog.tracks.length} tracks from {catalog.fileName}
+            <span className="text-slate-500"> · {placed} placed on the axes</span>
+          </p>
+          <div className="flex gap-3 text-[11px] flex-shrink-0">
+            <button onClick={onLoad} className="text-slate-400 hover:text-white">Replace</button>
+            <button onClick={onRemove} className="text-slate-400 hover:text-red-300">Remove</button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={onLoad} className="w-full text-left bg-slate-900/50 rounded-lg px-3 py-2 border border-dashed border-white/10 text-xs text-slate-400 hover:text-white hover:border-white/20 transition-colors">
+          Load your library (JSON or CSV) so journeys only use tracks you have
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Running total of the playlist against the length the listener asked for.
+const JourneyLengthSummary = ({ songs, length }: { songs: Song[]; length: JourneyLength }) => {
+  const total = totalSeconds(songs);
+  const requested = length.mode === "minutes" ? length.minutes * 60 : null;
+
+  return (
+    <div className="mt-3 px-1">
+      <div className="flex justify-between text-[11px] text-slate-400">
+        <span>{songs.length} songs · {formatDuration(total)}</span>
+        <span>
+          {requested
+            ? <>requested {formatDuration(requested)} ({total >= requested ? '+' : '−'}{formatDuration(Math.abs(total - requested))})</>
+            : <>requested {songCountFor(length)} songs</>}
+        </span>
+      </div>
+      {requested && (
+        <div className="mt-1 h-1 rounded-full bg-slate-800 overflow-hidden">
+          <div className="h-full bg-brand-primary/70" style={{ width: `${Math.min(100, total / requested * 100)}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
 // --- Main Application ---
 
 const App = () => {
@@ -814,16 +4808,112 @@ const App = () => {
   const [activeTab, setActiveTab] = useState<Tab>("SLIDERS");
   const [manualState, setManualState] = useState<AxisState>(INITIAL_STATE);
   const [aiSuggestion, setAiSuggestion] = useState<AiSuggestion | null>(null);
+  const [reviewState, setReviewState] = useState<AxisState | null>(null); // Per-axis merge of manualState and the suggestion
   const [playlistResult, setPlaylistResult] = useState<PlaylistResponse | null>(null);
+  const [isoReport, setIsoReport] = useState<IsoReport | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("Processing...");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [inputText, setInputText] = useState("");
+  const [journalImport, setJournalImport] = useState<{ fileName: string; entries: JournalEntry[] } | null>(null);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([]);
+  // The uploaded markdown file, kept so sessions can be appended to it
+  const [journalFile, setJournalFile] = useState<{ name: string; content: string } | null>(null);
+  const [savedToJournalId, setSavedToJournalId] = useState<string | null>(null);
+  const [sharedPlaylist, setSharedPlaylist] = useState<PlaylistResponse | null>(null); // The playlist whose link was last copied
+  const [sharedJourney, setSharedJourney] = useState<SharedJourney | null>(null); // Opened from a share link
+  const [droppedTracks, setDroppedTracks] = useState<DroppedTrack[] | null>(null); // Set for journeys built from an uploaded playlist
   const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
   const [excludedGenres, setExcludedGenres] = useState<string[]>([]);
   const [activeGraphAxis, setActiveGraphAxis] = useState<string>('energy');
+  const [analysisModality, setAnalysisModality] = useState<InputModality>("SLIDERS");
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+  const [activeSession, setActiveSession] = useState<SessionRecord | null>(null);
+  const [practitionerMode, setPractitionerMode] = useState(() => localStorage.getItem(PRACTITIONER_STORAGE_KEY) === "1");
+  const [clients, setClients] = useState<ClientProfile[]>([]);
+  const [activeClient, setActiveClient] = useState<ClientProfile | null>(null); // Practitioner mode: whose session is being run
+  const [goal, setGoal] = useState<JourneyGoal>(loadSavedGoal);
+  const [journeyLength, setJourneyLength] = useState<JourneyLength>(loadSavedLength);
+  const [engineId, setEngineId] = useState<EngineId>(() => (localStorage.getItem(ENGINE_STORAGE_KEY) as EngineId | null) ?? DEFAULT_ENGINE);
+  const engine = useMemo(() => createEngine(engineId), [engineId]);
   
-  const { isRecording, startRecording, stopRecording, audioBlob, analyserRef, metrics, setAudioBlob, permissionError } = useAudioRecorder();
+  const [recordingLimitSec, setRecordingLimitSec] = useState(DEFAULT_RECORDER_OPTIONS.maxDurationSec);
+  const { isRecording, startRecording, stopRecording, acceptClip, audioBlob, analyserRef, metrics, setAudioBlob, permissionError, recordingError, setRecordingError, remainingSec } =
+    useAudioRecorder({ ...DEFAULT_RECORDER_OPTIONS, maxDurationSec: recordingLimitSec });
+  const [uploadedAudio, setUploadedAudio] = useState<{ buffer: AudioBuffer; name: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioFileInputRef = useRef<HTMLInputElement>(null);
+  const journeyFileInputRef = useRef<HTMLInputElement>(null);
+  const playlistFileInputRef = useRef<HTMLInputElement>(null);
+  const catalogFileInputRef = useRef<HTMLInputElement>(null);
+  const playbackFileInputRef = useRef<HTMLInputElement>(null);
+  const [playbackFiles, setPlaybackFiles] = useState<LocalAudioFile[]>([]);
+  const [crossfadeSec, setCrossfadeSec] = useState(DEFAULT_CROSSFADE_SEC);
+  const [guidedMode, setGuidedMode] = useState(false);
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [pendingCheckIn, setPendingCheckIn] = useState<number | null>(null);
+  const [skippedCheckIns, setSkippedCheckIns] = useState(-1); // Last song whose check-in was skipped
+  // The next song due a check-in: the one after the last check-in or skip
+  const nextCheckIn = Math.max(skippedCheckIns, checkIns[checkIns.length - 1]?.afterSong ?? -1) + 1;
+  // Keyed by the track list so rating a song doesn't restart playback
+  const songListKey = playlistResult?.songs.map(trackLabel).join('\n') ?? '';
+  const playbackSources = useMemo(
+    () => playlistResult ? matchAudioFiles(playlistResult.songs, playbackFiles) : [],
+    [songListKey, playbackFiles]
+  );
+  const player = useJourneyPlayer(playbackSources, crossfadeSec, {
+    holdAfterEach: guidedMode,
+    resumeFrom: guidedMode ? nextCheckIn : 0,
+    onSongEnd: index => setPendingCheckIn(index)
+  });
+  const [catalog, setCatalog] = useState<MusicCatalog | null>(null);
+
+  useEffect(() => {
+    loadCatalog()
+      .then(saved => setCatalog(saved ?? null))
+      .catch(e => console.error("Failed to load music library", e));
+  }, []);
+
+  useEffect(() => {
+    if (!practitionerMode) return;
+    listClients()
+      .then(setClients)
+      .catch(e => console.error("Failed to load clients", e));
+  }, [practitionerMode]);
+
+  // A share link opens straight into a read-only view of the journey it carries.
+  useEffect(() => {
+    const openShareLink = () => {
+      if (!window.location.hash.startsWith(SHARE_HASH_PREFIX)) return;
+      decodeSharedJourney(window.location.hash).then(journey => {
+        if (!journey) {
+          setErrorMessage("This share link is incomplete or damaged. Ask for a new one.");
+          return;
+        }
+        setSharedJourney(journey);
+        setView("SHARED");
+      });
+    };
+    openShareLink();
+    window.addEventListener("hashchange", openShareLink);
+    return () => window.removeEventListener("hashchange", openShareLink);
+  }, []);
+  const playlistImportStartRef = useRef<{ state: AxisState; suggestion: AiSuggestion | null }>({ state: INITIAL_STATE, suggestion: null });
+
+  const handleEngineChange = (id: EngineId) => {
+    localStorage.setItem(ENGINE_STORAGE_KEY, id);
+    setEngineId(id);
+  };
+
+  const handleGoalChange = (next: JourneyGoal) => {
+    if (!activeClient) saveGoal(next); // A client's goal only changes through "Save as defaults"
+    setGoal(next);
+  };
+
+  const handleLengthChange = (next: JourneyLength) => {
+    saveLength(next);
+    setJourneyLength(next);
+  };
 
   const handleSliderChange = (axis: keyof AxisState, val: number) => {
     setManualState(prev => ({ ...prev, [axis]: val }));
@@ -836,81 +4926,112 @@ const App = () => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
-      setInputText(content);
+      const entries = parseJournalFile(file.name, content);
+      if (!entries) {
+        setErrorMessage(`"${file.name}" doesn't look like a Day One export. Upload a markdown file or a Day One JSON export.`);
+        return;
+      }
+      if (!file.name.toLowerCase().endsWith('.json')) setJournalFile({ name: file.name, content });
+      // A plain note without dated headings goes straight into the text box as before.
+      if (entries.length <= 1 && !entries[0]?.date) {
+        setInputText(content);
+        return;
+      }
+      setJournalImport({ fileName: file.name, entries: newestFirst(entries) });
+      setSelectedEntryIds(newestFirst(entries).slice(0, JOURNAL_ENTRIES_PER_REQUEST).map(entry => entry.id));
     };
     reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleCatalogUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const tracks = parseCatalogFile(file.name, await file.text());
+    if (!tracks) {
+      setErrorMessage(`No tracks found in "${file.name}". A library needs at least a title for each track.`);
+      return;
+    }
+    const next: MusicCatalog = { fileName: file.name, importedAt: Date.now(), tracks };
+    setErrorMessage(null);
+    setCatalog(next);
+    saveCatalog(next).catch(e => console.error("Failed to save music library", e));
+  };
+
+  const handlePlaybackFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    playbackFiles.forEach(file => URL.revokeObjectURL(file.url));
+    setPlaybackFiles(files.map(localAudioFile));
+  };
+
+  const removeCatalog = () => {
+    setCatalog(null);
+    deleteCatalog().catch(e => console.error("Failed to delete music library", e));
+  };
+
+  const selectedJournalEntries = () =>
+    journalImport ? journalImport.entries.filter(entry => selectedEntryIds.includes(entry.id)) : [];
+
+  const handleAudioUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    setRecordingError(null);
+    try {
+      setUploadedAudio({ buffer: await decodeAudioFile(file), name: file.name });
+    } catch (e) {
+      console.error("Could not decode audio file", e);
+      setRecordingError("We couldn't read that file. Try a WAV, MP3, M4A, OGG or WebM recording.");
+    }
+  };
+
+  const handleTrimConfirm = (startSec: number, endSec: number) => {
+    if (!uploadedAudio) return;
+    acceptClip(encodeWav(trimToMono(uploadedAudio.buffer, startSec, endSec), UPLOAD_SAMPLE_RATE), endSec - startSec);
+    setUploadedAudio(null);
   };
 
   const handleAnalyzeContext = async () => {
+    setErrorMessage(null);
     setLoading(true);
     setLoadingMessage("Analyzing your state...");
     setView("ANALYZING");
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const analysisSchema: Schema = {
-        type: Type.OBJECT,
-        properties: {
-          suggested_state: {
-            type: Type.OBJECT,
-            properties: {
-               energy: { type: Type.NUMBER },
-               reality: { type: Type.NUMBER },
-               temporal: { type: Type.NUMBER },
-               repetition: { type: Type.NUMBER },
-               hedonic: { type: Type.NUMBER },
-               summary: { type: Type.STRING }
-            }
-          },
-          reasoning: { type: Type.STRING },
-          voice_analysis: {
-             type: Type.OBJECT,
-             properties: {
-               pitch: { type: Type.STRING },
-               stability: { type: Type.STRING },
-               speed: { type: Type.STRING },
-               note: { type: Type.STRING }
-             }
-          }
-        },
-        required: ["suggested_state", "reasoning"]
+      // Everything the user gave us goes in together, whichever tab they are on.
+      const entries = selectedJournalEntries();
+      const { journalText, batches } = planJournalRequests(inputText.trim(), entries);
+      const request: AnalysisRequest = {
+        state: manualState,
+        journalText,
+        journalEntries: batches[0]?.length ? batches[0] : undefined,
+        audio: audioBlob ? { blob: audioBlob, metrics } : undefined
       };
+      const hasJournal = Boolean(journalText) || entries.length > 0;
+      setAnalysisModality(audioBlob && hasJournal ? "COMBINED" : audioBlob ? "VOICE" : "TEXT");
+      const result = await engine.analyzeState(request);
 
-      let contents = [];
-      
-      if (activeTab === "VOICE" && audioBlob) {
-        const base64Audio = await blobToBase64(audioBlob);
-        const clientMetricsStr = metrics ? `Metrics: RMS=${metrics.rms.toFixed(2)}, ZCR=${metrics.zcr.toFixed(2)}.` : "";
-        contents = [{
-          role: "user",
-          parts: [
-            { text: `The user set their state to: ${JSON.stringify(manualState)}. 
-             Based on the voice recording (${clientMetricsStr}), suggest adjustments to these coordinates.
-             Return 'suggested_state' and 'reasoning'. Do not simply override unless the voice strongly suggests otherwise (e.g., detected tremors, slow speed).` },
-            { inlineData: { mimeType: "audio/webm", data: base64Audio } }
-          ]
-        }];
-      } else {
-        contents = [{
-          role: "user",
-          parts: [{ text: `The user set their state to: ${JSON.stringify(manualState)}. 
-             They provided this context (which might be a short text or a journal entry): "${inputText}". 
-             Suggest adjustments to the state coordinates based on this text. Return 'suggested_state' and 'reasoning'.` }]
-        }];
+      // The newest entries shape the suggestion; older batches only add to the per-entry trend.
+      // If one of them fails, keep the suggestion and show the trend read so far.
+      let trend = result.entry_trend ?? [];
+      const readable = Math.min(batches.length, MAX_JOURNAL_REQUESTS);
+      for (let i = 1; i < readable; i++) {
+        setLoadingMessage(`Reading older journal entries (${i + 1}/${readable})...`);
+        try {
+          const older = await engine.analyzeState({ state: manualState, journalEntries: batches[i] });
+          trend = [...trend, ...(older.entry_trend ?? [])];
+        } catch (e) {
+          console.error(e);
+          setErrorMessage(`The trend covers only the newest ${i} of ${readable} journal parts. ${describeAiError(e, "reading older journal entries")}`);
+          break;
+        }
       }
-
-      const resp = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: contents,
-        config: { responseMimeType: "application/json", responseSchema: analysisSchema }
-      });
-      
-      const text = resp.text;
-      if (!text) throw new Error("No response text from AI");
-      
-      const result = JSON.parse(text) as AiSuggestion;
-      setAiSuggestion(result);
+      const suggestion: AiSuggestion = { ...result, entry_trend: entries.length > 0 ? mergeEntryTrend(trend, entries) : undefined };
+      setAiSuggestion(request.audio?.metrics ? { ...suggestion, voice_features: request.audio.metrics } : suggestion);
+      setReviewState(result.suggested_state);
       setLoading(false);
       setView("CONFIRMATION");
 
@@ -918,115 +5039,468 @@ const App = () => {
       console.error(e);
       setLoading(false);
       setView("INPUT");
-      alert("Hmm, something went wrong with the analysis. Please try again.");
+      setErrorMessage(describeAiError(e, "analyzing your state"));
     }
   };
 
-  const generatePlaylist = async (finalState: AxisState) => {
+  // `manualState` still holds the user's own settings here, even when a
+  // suggestion was just accepted, because state updates apply on the next render.
+  const generatePlaylist = async (finalState: AxisState, acceptedSuggestion: AiSuggestion | null = null) => {
+    setErrorMessage(null);
     setLoading(true);
     setLoadingMessage("Curating your therapeutic journey...");
     setView("ANALYZING"); // Re-use analyzing view for loading playlist
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const playlistSchema: Schema = {
-            type: Type.OBJECT,
-            properties: {
-              songs: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    title: { type: Type.STRING },
-                    artist: { type: Type.STRING },
-                    target_state: {
-                      type: Type.OBJECT,
-                      properties: { energy: { type: Type.NUMBER }, reality: { type: Type.NUMBER }, temporal: { type: Type.NUMBER }, repetition: { type: Type.NUMBER }, hedonic: { type: Type.NUMBER } }
-                    },
-                    therapeutic_note: { type: Type.STRING },
-                    color_hex: { type: Type.STRING },
-                    axis_shifts: {
-                        type: Type.OBJECT,
-                        properties: { energy: { type: Type.NUMBER }, reality: { type: Type.NUMBER }, temporal: { type: Type.NUMBER }, repetition: { type: Type.NUMBER }, hedonic: { type: Type.NUMBER } }
-                    }
-                  }
-                }
-              },
-              journey_narrative: { type: Type.STRING },
-              iso_insight: { type: Type.STRING },
-              total_shift: {
-                type: Type.OBJECT,
-                properties: { energy: { type: Type.NUMBER }, reality: { type: Type.NUMBER }, temporal: { type: Type.NUMBER }, repetition: { type: Type.NUMBER }, hedonic: { type: Type.NUMBER } }
-              }
-            }
-          };
-
-          const genreStr = selectedGenres.length > 0 ? `Preferred genres: ${selectedGenres.join(', ')}. ` : 'No preference';
-          const excludeStr = excludedGenres.length > 0 ? `NEVER include: ${excludedGenres.join(', ')}. ` : '';
-          
-          const prompt = `
-            You are a music therapy AI using the ISO Principle (Isoprinciple).
-
-            ## Current State Analysis
-            User's emotional coordinates: ${JSON.stringify(finalState)}
-            Target (healthy baseline): ${JSON.stringify(HEALTHY_TARGET)}
-
-            ## ISO Principle Rules
-            The ISO Principle states: "Meet the client where they are, then gradually guide them."
-            - Song 1: MUST match current state (±0.1 tolerance)
-            - Each song shifts MAX 0.2 per axis toward target
-            - Never jump directly to opposite emotion
-            - The journey matters more than the destination
-
-            ## Genre Preferences
-            ${genreStr}
-            ${excludeStr}
-
-            ## Output Requirements
-            For each of 5 songs, provide:
-            1. title, artist (REAL songs only)
-            2. target_state (exact coordinates this song represents)
-            3. therapeutic_note (1 sentence: why this song at this position)
-            4. color_hex (emotion color)
-            5. axis_shifts (how much each axis changed from previous song)
-
-            Also provide:
-            - journey_narrative: 2-3 sentences explaining the overall emotional arc
-            - iso_insight: A surprising fact about why starting sad/intense helps (if applicable)
-            - total_shift: Summary of movement on each axis across all 5 songs
-
-            IMPORTANT: 
-            - If user selected K-Pop/J-Pop, include those languages.
-            - Do NOT start with upbeat music for depressed/low energy states.
-          `;
-    
-          const resp = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: [{ 
-                role: "user", 
-                parts: [{ text: prompt }] 
-            }],
-            config: { responseMimeType: "application/json", responseSchema: playlistSchema }
-          });
-    
-          const text = resp.text;
-          if (!text) throw new Error("No response text from AI");
+        const songCount = songCountFor(journeyLength);
+        const maxStep = deriveStepLimit(finalState, goal.target, songCount);
+        const request: PlaylistRequest = {
+          startState: finalState,
+          target: goal.target,
+          goalLabel: goal.label,
+          genres: selectedGenres,
+          excludedGenres,
+          songCount,
+          maxStep,
+          targetMinutes: targetMinutesFor(journeyLength),
+          feedbackHistory: await loadFeedbackHistory(activeClient?.id),
+          outcomeExamples: await loadOutcomeExamples(activeClient?.id)
+        };
+        const data = await engine.generatePlaylist(catalog ? { ...request, catalog: catalogForRequest(catalog.tracks, request) } : request);
+        const report = checkIsoCompliance(data.songs, finalState, goal.target, maxStep);
+        if (!report.compliant) {
+          const songs = repairJourney(data.songs, finalState, goal.target, maxStep);
+          data.songs = songs;
+          data.total_shift = diffStates(songs[songs.length - 1].target_state, finalState);
+          report.repaired = true;
+        }
+        setIsoReport(report);
+        setPlaylistResult(data);
+        if (data.songs.length < songCount) setErrorMessage(describeShortJourney(data.songs.length, songCount));
+        setDroppedTracks(null);
+        resetGuidedProgress();
+        setLoading(false);
+        setView("PLAYLIST");
 
-          const data = JSON.parse(text) as PlaylistResponse;
-          setPlaylistResult(data);
-          setLoading(false);
-          setView("PLAYLIST");
+        const modality = aiSuggestion ? analysisModality : "SLIDERS";
+        persistSession({
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+          modality,
+          startState: manualState,
+          acceptedSuggestion,
+          finalState,
+          playlist: data,
+          isoReport: report,
+          goal,
+          length: journeyLength,
+          genres: selectedGenres,
+          excludedGenres,
+          journalText: modality === "TEXT" || modality === "COMBINED"
+            ? [inputText.trim(), formatEntriesAsText(selectedJournalEntries())].filter(Boolean).join('\n\n')
+            : undefined,
+          clientId: activeClient?.id
+        });
     } catch (e) {
         console.error(e);
         setLoading(false);
         setView("INPUT"); // Fallback
-        alert("Hmm, something went wrong generating the playlist. Please try again.");
+        setErrorMessage(describeAiError(e, "generating the playlist"));
+    }
+  };
+
+  const choosePlaylistFile = (state: AxisState, suggestion: AiSuggestion | null = null) => {
+    playlistImportStartRef.current = { state, suggestion };
+    playlistFileInputRef.current?.click();
+  };
+
+  // Builds the journey from the user's own playlist instead of asking for new songs.
+  const handlePlaylistImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { state: finalState, suggestion } = playlistImportStartRef.current;
+    try {
+      const allTracks = parsePlaylistFile(file.name, await file.text());
+      if (allTracks.length === 0) {
+        setErrorMessage(`No tracks found in "${file.name}". Upload an M3U, CSV or one-track-per-line text file.`);
+        return;
+      }
+      const tracks = allTracks.slice(0, MAX_IMPORTED_TRACKS);
+
+      setErrorMessage(null);
+      setLoading(true);
+      setLoadingMessage("Placing your tracks on the map...");
+      setView("ANALYZING");
+      const placements = await engine.placeTracks(tracks);
+      if (placements.every(placement => !placement.state)) {
+        setLoading(false);
+        setView("INPUT");
+        setErrorMessage(`None of the tracks in "${file.name}" could be placed on the axes. ${placements[0]?.note ?? ''}`.trim());
+        return;
+      }
+      // The same derived step as a generated journey of this many songs.
+      const maxStep = deriveStepLimit(finalState, goal.target, placements.filter(placement => placement.state).length);
+      const { playlist, dropped } = buildImportedJourney(tracks, placements, { start: finalState, target: goal.target, goalLabel: goal.label, maxStep, fileName: file.name });
+      const allDropped = [...dropped, ...allTracks.slice(MAX_IMPORTED_TRACKS).map(track => ({ ...track, reason: `Only the first ${MAX_IMPORTED_TRACKS} tracks are read.` }))];
+      const report = checkIsoCompliance(playlist.songs, finalState, goal.target, maxStep);
+      setManualState(finalState);
+      setIsoReport(report);
+      setPlaylistResult(playlist);
+      setDroppedTracks(allDropped);
+      resetGuidedProgress();
+      setLoading(false);
+      setView("PLAYLIST");
+
+      const modality = suggestion ? analysisModality : "SLIDERS";
+      persistSession({
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        modality,
+        startState: manualState,
+        acceptedSuggestion: suggestion,
+        finalState,
+        playlist,
+        isoReport: report,
+        goal,
+        length: { mode: "songs", songs: playlist.songs.length },
+        genres: selectedGenres,
+        excludedGenres,
+        importedFrom: file.name,
+        droppedTracks: allDropped,
+        clientId: activeClient?.id
+      });
+    } catch (e) {
+      console.error(e);
+      setLoading(false);
+      setView("INPUT");
+      setErrorMessage(describeAiError(e, "placing your playlist"));
+    }
+  };
+
+  // Appends the session to the uploaded journal (or starts a new one) and
+  // downloads the result; later saves build on the same content.
+  const saveToJournal = () => {
+    if (!activeSession) return;
+    const name = journalFile?.name ?? DEFAULT_JOURNAL_FILE_NAME;
+    const content = appendToJournal(journalFile?.content ?? '', formatSessionMarkdown(activeSession));
+    downloadFile(name, content, 'text/markdown;charset=utf-8');
+    setJournalFile({ name, content });
+    setSavedToJournalId(activeSession.id);
+  };
+
+  const shareJourney = async () => {
+    if (!playlistResult) return;
+    let fragment: string;
+    try {
+      fragment = await encodeSharedJourney({ start: manualState, target: goal.target, goalLabel: goal.label, genres: selectedGenres, playlist: playlistResult });
+    } catch (e) {
+      console.error("Failed to build share link", e);
+      setErrorMessage("This browser can't build share links. Try exporting the journey instead.");
+      return;
+    }
+    const url = `${window.location.origin}${window.location.pathname}${fragment}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setSharedPlaylist(playlistResult);
+    } catch {
+      window.prompt("Copy this link to share your journey:", url);
+    }
+  };
+
+  const leaveSharedJourney = () => {
+    history.replaceState(null, "", window.location.pathname + window.location.search);
+    setSharedJourney(null);
+    setView("INPUT");
+  };
+
+  const persistSession = (session: SessionRecord) => {
+    setActiveSession(session);
+    saveSession(session).catch(e => console.error("Failed to save session", e));
+  };
+
+  const updatePlaylist = (playlist: PlaylistResponse, report: IsoReport | null = isoReport, sessionCheckIns: CheckIn[] = checkIns) => {
+    setPlaylistResult(playlist);
+    setIsoReport(report);
+    if (activeSession) persistSession({ ...activeSession, playlist, isoReport: report, checkIns: sessionCheckIns });
+  };
+
+  const resetGuidedProgress = (saved: CheckIn[] = []) => {
+    setCheckIns(saved);
+    setPendingCheckIn(null);
+    setSkippedCheckIns(-1);
+  };
+
+  const handleSongFeedback = (index: number, feedback: SongFeedback | undefined) => {
+    if (!playlistResult) return;
+    const songs = playlistResult.songs.map((song, i) => i === index ? { ...song, feedback } : song);
+    const playlist = { ...playlistResult, songs };
+    setPlaylistResult(playlist);
+    if (activeSession) {
+      const rated = rateTrack(sessionFeedback(activeSession), trackLabel(songs[index]), feedback);
+      persistSession({ ...activeSession, playlist, feedback: rated });
+    }
+  };
+
+  // Asks the engine for `count` songs after `kept`, starting from `startState`.
+  const requestRemainingSongs = async (startState: AxisState, kept: Song[], count: number, maxStep: number) => {
+    const targetMinutes = targetMinutesFor(journeyLength);
+    const request: PlaylistRequest = {
+      startState,
+      target: goal.target,
+      goalLabel: goal.label,
+      genres: selectedGenres,
+      excludedGenres,
+      songCount: count,
+      maxStep,
+      targetMinutes: targetMinutes && Math.max(1, Math.round(targetMinutes - totalSeconds(kept) / 60)),
+      previousSongs: kept,
+      feedbackHistory: await loadFeedbackHistory(activeClient?.id, activeSession),
+      outcomeExamples: await loadOutcomeExamples(activeClient?.id)
+    };
+    const data = await engine.generatePlaylist(catalog ? { ...request, catalog: catalogForRequest(catalog.tracks, request) } : request);
+    if (data.songs.length < count) setErrorMessage(describeShortJourney(data.songs.length, count));
+    return data;
+  };
+
+  // Keeps songs before `index`, then asks the engine for the rest of the
+  // journey starting from a waypoint adjusted by the listener's feedback.
+  const replanFrom = async (index: number) => {
+    if (!playlistResult) return;
+    const songs = playlistResult.songs;
+    const feedback = songs[index].feedback;
+    if (feedback !== 'heavy' && feedback !== 'meh') return;
+
+    const kept = songs.slice(0, index);
+    // A check-in right before this song says where the listener really is.
+    const checkIn = checkIns.find(c => c.afterSong === index - 1);
+    const prev = checkIn?.state ?? (index === 0 ? manualState : songs[index - 1].target_state);
+    const maxStep = isoReport?.maxStep ?? ISO_MAX_STEP;
+    const waypoint = adjustWaypoint(prev, songs[index].target_state, goal.target, feedback, maxStep);
+    const remaining = songs.length - index;
+    const keptCheckIns = checkIns.filter(c => c.afterSong < index);
+
+    setErrorMessage(null);
+    setLoading(true);
+    setLoadingMessage("Re-planning the rest of your journey...");
+    setView("ANALYZING");
+
+    try {
+      const data = await requestRemainingSongs(waypoint, kept, remaining, maxStep);
+      let tail = data.songs.slice(0, remaining);
+      const report = checkIsoCompliance([...kept, ...tail], manualState, goal.target, maxStep, keptCheckIns);
+      if (!report.compliant) {
+        // After a check-in the first new song has to meet the measured state, not the waypoint.
+        tail = repairJourney(tail, checkIn ? prev : waypoint, goal.target, maxStep);
+        report.repaired = true;
+      }
+      tail[0] = { ...tail[0], axis_shifts: diffStates(tail[0].target_state, prev) };
+      const merged = [...kept, ...tail];
+      resetGuidedProgress(keptCheckIns);
+      setSkippedCheckIns(Math.min(skippedCheckIns, index - 1));
+      updatePlaylist({
+        ...playlistResult,
+        songs: merged,
+        journey_narrative: data.journey_narrative || playlistResult.journey_narrative,
+        total_shift: diffStates(merged[merged.length - 1].target_state, manualState)
+      }, report, keptCheckIns);
+    } catch (e) {
+      console.error(e);
+      setErrorMessage(describeAiError(e, "re-planning your journey"));
+    }
+    setLoading(false);
+    setView("PLAYLIST");
+  };
+
+  // The post-session check-in, measured from the state the journey was generated from.
+  const recordOutcome = (state: AxisState, sessionCheckIns: CheckIn[] = checkIns) => {
+    if (!activeSession) return;
+    persistSession({ ...activeSession, checkIns: sessionCheckIns, outcome: measureOutcome(activeSession.finalState, activeSession.goal.target, state) });
+  };
+
+  // Guided mode: records where the listener is after song `index` and
+  // re-plans the songs after it from that measured point.
+  const submitCheckIn = async (index: number, measured: AxisState) => {
+    if (!playlistResult) return;
+    const nextCheckIns = [...checkIns.filter(c => c.afterSong < index), { afterSong: index, state: measured, at: Date.now() }];
+    setCheckIns(nextCheckIns);
+    setPendingCheckIn(null);
+
+    const songs = playlistResult.songs;
+    const kept = songs.slice(0, index + 1);
+    const remaining = songs.length - kept.length;
+    if (remaining === 0) {
+      recordOutcome(measured, nextCheckIns); // The last check-in doubles as the post-session one
+      return;
+    }
+
+    const maxStep = isoReport?.maxStep ?? ISO_MAX_STEP;
+    setErrorMessage(null);
+    setLoading(true);
+    setLoadingMessage("Adapting the rest of your journey...");
+    setView("ANALYZING");
+
+    try {
+      const data = await requestRemainingSongs(measured, kept, remaining, maxStep);
+      let tail = data.songs.slice(0, remaining);
+      // The new songs answer to the measured state, not to the plan they replace.
+      const report = checkIsoCompliance([...kept, ...tail], manualState, goal.target, maxStep, nextCheckIns);
+      if (report.violations.some(v => v.songIndex >= kept.length)) {
+        tail = repairJourney(tail, measured, goal.target, maxStep);
+        report.repaired = true;
+      }
+      tail[0] = { ...tail[0], axis_shifts: diffStates(tail[0].target_state, measured) };
+      const merged = [...kept, ...tail];
+      updatePlaylist({
+        ...playlistResult,
+        songs: merged,
+        journey_narrative: data.journey_narrative || playlistResult.journey_narrative,
+        total_shift: diffStates(merged[merged.length - 1].target_state, manualState)
+      }, report, nextCheckIns);
+    } catch (e) {
+      console.error(e);
+      updatePlaylist(playlistResult, isoReport, nextCheckIns);
+      setErrorMessage(describeAiError(e, "adapting your journey"));
+    }
+    setLoading(false);
+    setView("PLAYLIST");
+  };
+
+  const openSessionsView = (target: "HISTORY" | "DASHBOARD") => {
+    setSessions(null);
+    setView(target);
+    listSessions(activeClient?.id)
+      .then(setSessions)
+      .catch(e => {
+        console.error("Failed to load sessions", e);
+        setSessions([]);
+      });
+  };
+
+  const openSession = (session: SessionRecord) => {
+    setManualState(session.finalState);
+    setAiSuggestion(session.acceptedSuggestion);
+    setPlaylistResult(session.playlist);
+    setIsoReport(session.isoReport);
+    setSelectedGenres(session.genres);
+    setExcludedGenres(session.excludedGenres);
+    setInputText(session.journalText ?? "");
+    setAnalysisModality(session.modality);
+    setGoal(session.goal ?? DEFAULT_GOAL);
+    setJourneyLength(session.length ?? { mode: "songs", songs: session.playlist.songs.length });
+    setDroppedTracks(session.droppedTracks ?? null);
+    resetGuidedProgress(session.checkIns ?? []);
+    setActiveSession(session);
+    setView("PLAYLIST");
+  };
+
+  const handleJourneyImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(content => {
+      const parsed = parseJourneyExport(content);
+      if (!parsed) {
+        setErrorMessage(`"${file.name}" isn't a TherapyTune journey export.`);
+        return;
+      }
+      const session = { ...parsed, clientId: activeClient?.id }; // Filed under whoever is active now
+      setErrorMessage(null);
+      saveSession(session).catch(e => console.error("Failed to save session", e));
+      openSession(session);
+    }).catch(e => {
+      console.error(e);
+      setErrorMessage(`Couldn't read "${file.name}". Please try again.`);
+    });
+  };
+
+  const removeSession = async (session: SessionRecord) => {
+    if (!confirm("Delete this journey from your history?")) return;
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev?.filter(s => s.id !== session.id) ?? null);
+    } catch (e) {
+      console.error("Failed to delete session", e);
+    }
+  };
+
+  const startOver = () => {
+    setView("INPUT"); setInputText(""); setAudioBlob(null); setAiSuggestion(null); setReviewState(null); setJournalImport(null); setSelectedEntryIds([]); setSelectedGenres(activeClient?.genres ?? []); setExcludedGenres(activeClient?.excludedGenres ?? []); setPlaylistResult(null); setIsoReport(null); setDroppedTracks(null); setAnalysisModality("SLIDERS"); setActiveSession(null);
+    resetGuidedProgress();
+  };
+
+  // Nothing from the previous person's session carries over: not their sliders,
+  // journal, recording, audio files or playlist.
+  const switchClient = (client: ClientProfile | null) => {
+    startOver();
+    setManualState(INITIAL_STATE);
+    setJournalFile(null);
+    setUploadedAudio(null);
+    setPlaybackFiles([]);
+    setSavedToJournalId(null);
+    setSharedPlaylist(null);
+    setSessions(null);
+    setErrorMessage(null);
+    setActiveClient(client);
+    setSelectedGenres(client?.genres ?? []);
+    setExcludedGenres(client?.excludedGenres ?? []);
+    setGoal(client?.goal ?? loadSavedGoal());
+  };
+
+  const togglePractitionerMode = () => {
+    const next = !practitionerMode;
+    localStorage.setItem(PRACTITIONER_STORAGE_KEY, next ? "1" : "0");
+    setPractitionerMode(next);
+    if (activeClient) switchClient(null);
+  };
+
+  const createClient = async () => {
+    const name = window.prompt("Client name or initials:")?.trim();
+    if (!name) return;
+    const client = newClientProfile(name);
+    try {
+      await saveClient(client);
+      setClients(prev => [...prev, client].sort((a, b) => a.name.localeCompare(b.name)));
+      switchClient(client);
+    } catch (e) {
+      console.error("Failed to save client", e);
+      setErrorMessage("Couldn't save the client profile.");
+    }
+  };
+
+  const saveClientDefaults = () => {
+    if (!activeClient) return;
+    const client = { ...activeClient, genres: selectedGenres, excludedGenres, goal };
+    setActiveClient(client);
+    setClients(prev => prev.map(c => c.id === client.id ? client : c));
+    saveClient(client).catch(e => console.error("Failed to save client", e));
+  };
+
+  const removeClient = async () => {
+    if (!activeClient || !confirm(`Delete ${activeClient.name} and all of their journeys?`)) return;
+    try {
+      await deleteClient(activeClient.id);
+      setClients(prev => prev.filter(c => c.id !== activeClient.id));
+      switchClient(null);
+    } catch (e) {
+      console.error("Failed to delete client", e);
     }
   };
 
+  const saveClinicalNotes = (clinicalNotes: string) => {
+    if (activeSession) persistSession({ ...activeSession, clinicalNotes });
+  };
+
   // Validation
   const canProceed = selectedGenres.length > 0;
 
+  // The suggestion's summary only describes it while every axis is taken as suggested.
+  const mergedState: AxisState = (() => {
+    const base = reviewState ?? aiSuggestion?.suggested_state ?? manualState;
+    const { summary, ...axes } = base;
+    return aiSuggestion && AXES.every(axis => base[axis] === aiSuggestion.suggested_state[axis]) ? base : axes;
+  })();
+
   return (
     <>
       <MorphingBackground state={manualState} />
@@ -1035,8 +5509,10 @@ const App = () => {
 
       <main className="relative z-10 min-h-screen flex flex-col items-center justify-center p-4 overflow-hidden">
         
+        <input type="file" ref={playlistFileInputRef} onChange={handlePlaylistImport} accept={PLAYLIST_FILE_ACCEPT} className="hidden" />
+
         {/* HEADER */}
-        {view !== "PLAYLIST" && (
+        {view !== "PLAYLIST" && view !== "REPORT" && (
             <div className="w-full max-w-2xl text-center mb-6 animate-fade-in">
                 <h1 className="text-4xl md:text-6xl font-display font-bold mb-2 text-aurora tracking-tight">
                 TherapyTune
@@ -1044,6 +5520,51 @@ const App = () => {
                 <p className="text-slate-300 text-lg font-light tracking-wide">
                 Music for Your Mood
                 </p>
+                {view === "INPUT" && (
+                    <div className="mt-3 flex justify-center gap-6">
+                        <button onClick={() => openSessionsView("HISTORY")} className="text-xs text-slate-400 hover:text-white uppercase tracking-widest font-bold transition-colors">
+                            🕘 Past Journeys
+                        </button>
+                        <button onClick={() => openSessionsView("DASHBOARD")} className="text-xs text-slate-400 hover:text-white uppercase tracking-widest font-bold transition-colors">
+                            📈 Mood Trends
+                        </button>
+                        <input type="file" ref={journeyFileInputRef} onChange={handleJourneyImport} accept=".json,application/json" className="hidden" />
+                        <button onClick={() => journeyFileInputRef.current?.click()} className="text-xs text-slate-400 hover:text-white uppercase tracking-widest font-bold transition-colors">
+                            📂 Open Journey
+                        </button>
+                        <button onClick={togglePractitionerMode} className={`text-xs uppercase tracking-widest font-bold transition-colors ${practitionerMode ? 'text-brand-primary hover:text-white' : 'text-slate-400 hover:text-white'}`}>
+                            🩺 {practitionerMode ? 'Practitioner Mode On' : 'Practitioner Mode'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* HISTORY VIEW */}
+        {view === "HISTORY" && (
+            <HistoryView sessions={sessions} onOpen={openSession} onDelete={removeSession} onBack={() => setView("INPUT")} />
+        )}
+
+        {/* REPORT VIEW */}
+        {view === "REPORT" && activeSession && (
+            <SessionReport session={activeSession} clientName={activeClient?.name} onBack={() => setView("PLAYLIST")} />
+        )}
+
+        {/* SHARED VIEW */}
+        {view === "SHARED" && sharedJourney && (
+            <SharedJourneyView journey={sharedJourney} onStartOwn={leaveSharedJourney} />
+        )}
+
+        {/* DASHBOARD VIEW */}
+        {view === "DASHBOARD" && (
+            <MoodDashboard sessions={sessions} onBack={() => setView("INPUT")} />
+        )}
+
+        {/* ERROR BANNER */}
+        {(view === "INPUT" || view === "CONFIRMATION" || view === "PLAYLIST") && errorMessage && (
+            <div role="alert" className="w-full max-w-4xl mb-4 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/20 flex justify-between items-center gap-4 animate-fade-in">
+                <p className="text-sm text-red-200">{errorMessage}</p>
+                <button onClick={() => setErrorMessage(null)} className="text-xs text-red-300 hover:text-white uppercase tracking-wider font-bold">Dismiss</button>
             </div>
         )}
 
@@ -1054,18 +5575,40 @@ const App = () => {
                 
                 {/* Left: Visualization (Always Visible) */}
                 <div className="w-full md:w-1/2 flex flex-col justify-center">
-                   <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 text-center">Your Settings</h3>
+                   <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 text-center">{activeClient ? `${activeClient.name}'s Settings` : 'Your Settings'}</h3>
                    <div className="bg-slate-800/50 rounded-2xl p-4 border border-white/5 shadow-inner">
-                      <AxisRadarChart current={manualState} target={HEALTHY_TARGET} />
+                      <AxisRadarChart current={manualState} target={goal.target} />
                    </div>
                    <p className="text-center text-xs text-slate-500 mt-4 px-8">
                       Adjust the sliders to match how you feel right now. We'll find music that resonates.
                    </p>
+                   <div className="flex justify-center gap-2 mt-4">
+                      {(["gemini", "offline"] as EngineId[]).map(id => (
+                        <button
+                          key={id}
+                          onClick={() => handleEngineChange(id)}
+                          className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-all ${engineId === id ? 'border-brand-primary text-brand-primary bg-brand-primary/10' : 'border-white/10 text-slate-500 hover:text-slate-300'}`}
+                        >
+                          {id === "gemini" ? '✨ Gemini' : '🔌 Offline'}
+                        </button>
+                      ))}
+                   </div>
                 </div>
 
                 {/* Right: Controls */}
                 <div className="w-full md:w-1/2 flex flex-col">
                    
+                   {practitionerMode && (
+                     <ClientPanel
+                        clients={clients}
+                        activeClient={activeClient}
+                        onSelect={switchClient}
+                        onCreate={createClient}
+                        onSaveDefaults={saveClientDefaults}
+                        onDelete={removeClient}
+                     />
+                   )}
+
                    {/* Genre Selection - Always visible in Input Flow */}
                    <GenreSelector 
                       selected={selectedGenres} 
@@ -1074,6 +5617,11 @@ const App = () => {
                       setExcluded={setExcludedGenres}
                    />
 
+                   <GoalSelector goal={goal} onChange={handleGoalChange} />
+                   <LengthSelector length={journeyLength} onChange={handleLengthChange} />
+                   <input type="file" ref={catalogFileInputRef} onChange={handleCatalogUpload} accept={CATALOG_FILE_ACCEPT} className="hidden" />
+                   <CatalogPanel catalog={catalog} onLoad={() => catalogFileInputRef.current?.click()} onRemove={removeCatalog} />
+
                    {/* Tabs */}
                    <div className="flex gap-2 mb-6 p-1 bg-slate-800/50 rounded-lg">
                       <button onClick={() => setActiveTab("SLIDERS")} className={`flex-1 py-2 text-xs font-bold uppercase tracking-wider rounded-md transition-all ${activeTab === "SLIDERS" ? "bg-aurora text-slate-900 shadow-lg" : "text-slate-400 hover:text-white"}`}>Controls</button>
@@ -1086,46 +5634,7 @@ const App = () => {
                       
                       {activeTab === "SLIDERS" && (
                           <div className="animate-fade-in">
-                              <AxisSlider 
-                                label="Energy" 
-                                lowLabel="Exhausted" 
-                                highLabel="Wired" 
-                                value={manualState.energy} 
-                                onChange={(v) => handleSliderChange('energy', v)} 
-                                gradient="linear-gradient(90deg, #4f46e5 0%, #ec4899 100%)"
-                              />
-                              <AxisSlider 
-                                label="Reality" 
-                                lowLabel="Foggy" 
-                                highLabel="On Edge" 
-                                value={manualState.reality} 
-                                onChange={(v) => handleSliderChange('reality', v)} 
-                                gradient="linear-gradient(90deg, #2563eb 0%, #22d3ee 100%)"
-                              />
-                              <AxisSlider 
-                                label="Temporal" 
-                                lowLabel="Past" 
-                                highLabel="Future" 
-                                value={manualState.temporal} 
-                                onChange={(v) => handleSliderChange('temporal', v)} 
-                                gradient="linear-gradient(90deg, #0d9488 0%, #34d399 100%)"
-                              />
-                              <AxisSlider 
-                                label="Repetition" 
-                                lowLabel="Bored" 
-                                highLabel="Obsessing" 
-                                value={manualState.repetition} 
-                                onChange={(v) => handleSliderChange('repetition', v)} 
-                                gradient="linear-gradient(90deg, #ea580c 0%, #fbbf24 100%)"
-                              />
-                              <AxisSlider 
-                                label="Hedonic" 
-                                lowLabel="Numb" 
-                                highLabel="Overwhelmed" 
-                                value={manualState.hedonic} 
-                                onChange={(v) => handleSliderChange('hedonic', v)} 
-                                gradient="linear-gradient(90deg, #c026d3 0%, #e879f9 100%)"
-                              />
+                              <AxisSliderGroup state={manualState} onChange={handleSliderChange} />
                               
                               <button 
                                 onClick={() => generatePlaylist(manualState)}
@@ -1134,6 +5643,12 @@ const App = () => {
                               >
                                 {canProceed ? "Find Music for This Mood" : "Select at least 1 genre"}
                               </button>
+                              <button
+                                onClick={() => choosePlaylistFile(manualState)}
+                                className="w-full mt-2 text-xs text-slate-400 hover:text-white transition-colors"
+                              >
+                                or build the journey from your own playlist (M3U, CSV, text)
+                              </button>
                           </div>
                       )}
 
@@ -1144,11 +5659,19 @@ const App = () => {
                                   Microphone Access Denied. Please enable permissions.
                                 </div>
                              )}
+                             {recordingError && !isRecording && (
+                                <div className="w-full mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-200 text-xs text-center">
+                                  {recordingError}
+                                </div>
+                             )}
                              
                              <div className="flex-grow flex flex-col items-center justify-center w-full">
                                 {isRecording ? (
                                     <>
-                                        <div className="text-brand-primary animate-pulse mb-4 font-mono text-xs uppercase">Recording...</div>
+                                        <div className="text-brand-primary animate-pulse mb-1 font-mono text-xs uppercase">Recording...</div>
+                                        <div className={`mb-4 font-mono text-xs ${remainingSec <= 10 ? 'text-amber-300' : 'text-slate-500'}`}>
+                                            {formatDuration(remainingSec)} left · stops after {DEFAULT_RECORDER_OPTIONS.silenceStopSec}s of silence
+                                        </div>
                                         <LiveWaveform analyser={analyserRef} isRecording={isRecording} />
                                         <button onClick={() => stopRecording()} className="mt-8 w-16 h-16 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center shadow-lg transition-transform hover:scale-110">
                                             <div className="w-6 h-6 bg-white rounded-sm" />
@@ -1157,6 +5680,9 @@ const App = () => {
                                 ) : audioBlob ? (
                                     <div className="w-full text-center">
                                         <div className="text-teal-300 mb-4 font-display text-lg">Voice Captured</div>
+                                        {inputText.trim() && (
+                                            <p className="text-[11px] text-slate-500 -mt-2 mb-4">Your journal entry will be analysed together with it.</p>
+                                        )}
                                         <div className="flex flex-col gap-3">
                                             <button 
                                                 onClick={handleAnalyzeContext} 
@@ -1168,12 +5694,41 @@ const App = () => {
                                             <button onClick={() => { setAudioBlob(null); startRecording(); }} className="w-full py-3 rounded-xl border border-white/10 text-slate-300 hover:bg-white/5 transition-all">
                                                 Record Again
                                             </button>
+                                            <button onClick={() => setAudioBlob(null)} className="text-xs text-slate-500 hover:text-slate-300 transition-colors">
+                                                Upload a file instead
+                                            </button>
                                         </div>
                                     </div>
+                                ) : uploadedAudio ? (
+                                    <AudioTrimmer
+                                        buffer={uploadedAudio.buffer}
+                                        fileName={uploadedAudio.name}
+                                        maxSec={Math.max(...RECORDING_LIMITS_SEC)}
+                                        onConfirm={handleTrimConfirm}
+                                        onCancel={() => setUploadedAudio(null)}
+                                    />
                                 ) : (
+                                  <div className="flex flex-col items-center gap-4">
                                     <button onClick={startRecording} className="group w-24 h-24 rounded-full bg-slate-800 border border-slate-600 flex items-center justify-center hover:border-brand-primary hover:bg-slate-700 transition-all">
                                         <svg className="w-10 h-10 text-slate-300 group-hover:text-brand-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
                                     </button>
+                                    <div className="flex items-center gap-2 text-[11px] text-slate-500">
+                                      <span>Up to</span>
+                                      {RECORDING_LIMITS_SEC.map(limit => (
+                                        <button
+                                          key={limit}
+                                          onClick={() => setRecordingLimitSec(limit)}
+                                          className={`px-2 py-0.5 rounded-full border transition-colors ${recordingLimitSec === limit ? 'border-brand-primary/50 text-brand-primary' : 'border-white/10 hover:text-slate-300'}`}
+                                        >
+                                          {formatDuration(limit)}
+                                        </button>
+                                      ))}
+                                    </div>
+                                    <input type="file" ref={audioFileInputRef} onChange={handleAudioUpload} accept={AUDIO_UPLOAD_ACCEPT} className="hidden" />
+                                    <button onClick={() => audioFileInputRef.current?.click()} className="text-xs text-slate-400 hover:text-brand-primary transition-colors">
+                                      or upload a voice memo (WAV, MP3, M4A, OGG, WebM)
+                                    </button>
+                                  </div>
                                 )}
                              </div>
                              <p className="text-xs text-slate-500 mt-4 text-center px-4">
@@ -1190,7 +5745,7 @@ const App = () => {
                                     type="file" 
                                     ref={fileInputRef}
                                     onChange={handleFileUpload}
-                                    accept=".md,.txt,.markdown"
+                                    accept={JOURNAL_FILE_ACCEPT}
                                     className="hidden"
                                 />
                                 <button 
@@ -1201,21 +5756,32 @@ const App = () => {
                                 </button>
                             </div>
 
+                             {journalImport && (
+                                <JournalEntryPicker
+                                    fileName={journalImport.fileName}
+                                    entries={journalImport.entries}
+                                    selected={selectedEntryIds}
+                                    onChange={setSelectedEntryIds}
+                                    onClear={() => { setJournalImport(null); setSelectedEntryIds([]); }}
+                                />
+                             )}
+
                              <textarea
-                                className="w-full h-40 bg-slate-800/50 rounded-xl p-4 text-white placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-brand-primary resize-none text-base"
-                                placeholder="Describe how you're feeling or upload a journal entry..."
+                                className={`w-full ${journalImport ? 'h-20' : 'h-40'} bg-slate-800/50 rounded-xl p-4 text-white placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-brand-primary resize-none text-base`}
+                                placeholder={journalImport ? "Anything else about today? (optional)" : "Describe how you're feeling or upload a journal entry..."}
                                 value={inputText}
                                 onChange={(e) => setInputText(e.target.value)}
                              />
                              <button 
                                 onClick={handleAnalyzeContext}
-                                disabled={!inputText.trim() || !canProceed}
+                                disabled={(!inputText.trim() && selectedEntryIds.length === 0) || !canProceed}
                                 className="w-full mt-4 py-3 rounded-xl bg-aurora text-slate-900 font-bold hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                              >
                                 {canProceed ? "Check with AI" : "Select a genre first"}
                              </button>
                              <p className="text-xs text-slate-500 mt-4 text-center">
                                 AI will read this text or uploaded file and suggest slider adjustments.
+                                {audioBlob && " Your voice recording will be analysed together with it."}
                              </p>
                           </div>
                       )}
@@ -1241,40 +5807,60 @@ const App = () => {
 
         {/* CONFIRMATION VIEW */}
         {view === "CONFIRMATION" && aiSuggestion && (
-            <div className="w-full max-w-2xl glass-panel rounded-3xl p-8 animate-fade-in-up">
+            <div className="w-full max-w-4xl glass-panel rounded-3xl p-8 animate-fade-in-up">
                 <h2 className="text-2xl font-display font-bold text-white mb-2 text-center">Suggestion</h2>
                 <div className="flex justify-center mb-6">
                     <div className="h-1 w-16 bg-brand-accent rounded-full" />
                 </div>
 
-                <div className="flex flex-col md:flex-row gap-8 mb-8">
+                <p className="text-slate-300 text-lg leading-relaxed mb-6 text-center">"{aiSuggestion.reasoning}"</p>
+
+                <div className="flex flex-col md:flex-row gap-8 mb-6">
                      <div className="w-full md:w-1/2">
-                        <AxisRadarChart current={manualState} suggestion={aiSuggestion.suggested_state} />
+                        <AxisRadarChart current={manualState} suggestion={mergedState} />
                         <div className="flex justify-center gap-4 mt-2 text-xs">
                            <div className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-brand-accent"/> My Settings</div>
-                           <div className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-orange-400"/> Suggested</div>
+                           <div className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-orange-400"/> Will Use</div>
                         </div>
                      </div>
-                     <div className="w-full md:w-1/2 flex flex-col justify-center">
-                        <p className="text-slate-300 text-lg leading-relaxed mb-4">"{aiSuggestion.reasoning}"</p>
-                        {aiSuggestion.voice_analysis && (
-                            <div className="bg-slate-800/50 p-3 rounded-lg border border-white/5 mb-4">
-                                <p className="text-xs text-brand-primary font-bold uppercase mb-1">What we heard</p>
-                                <p className="text-sm text-slate-400">"{aiSuggestion.voice_analysis.note}"</p>
-                            </div>
-                        )}
+                     <div className="w-full md:w-1/2">
+                        <div className="flex justify-end gap-3 mb-2 text-[11px]">
+                           <button onClick={() => setReviewState(aiSuggestion.suggested_state)} className="text-slate-400 hover:text-white transition-colors">Accept all</button>
+                           <button onClick={() => setReviewState(manualState)} className="text-slate-400 hover:text-white transition-colors">Reject all</button>
+                        </div>
+                        {AXES.map(axis => (
+                            <React.Fragment key={axis}>
+                                <AxisReview
+                                    axis={axis}
+                                    mine={manualState[axis]}
+                                    suggested={aiSuggestion.suggested_state[axis]}
+                                    value={mergedState[axis]}
+                                    insight={aiSuggestion.axis_insights?.[axis]}
+                                    onChange={(value) => setReviewState({ ...mergedState, [axis]: value })}
+                                />
+                            </React.Fragment>
+                        ))}
                      </div>
                 </div>
 
+                {aiSuggestion.entry_trend && aiSuggestion.entry_trend.length > 1 && <EntryTrendChart trend={aiSuggestion.entry_trend} />}
+
+                <div className="grid md:grid-cols-2 gap-4 mb-4">
+                    {aiSuggestion.contributions && <SourceBreakdown contributions={aiSuggestion.contributions} />}
+                    {(aiSuggestion.voice_analysis || aiSuggestion.voice_features) && (
+                        <VoiceFeaturePanel analysis={aiSuggestion.voice_analysis} features={aiSuggestion.voice_features} />
+                    )}
+                </div>
+
                 <div className="flex gap-4">
                     <button 
                        onClick={() => {
-                           setManualState(aiSuggestion.suggested_state);
-                           generatePlaylist(aiSuggestion.suggested_state);
+                           setManualState(mergedState);
+                           generatePlaylist(mergedState, aiSuggestion);
                        }}
                        className="flex-1 py-3 bg-brand-primary text-slate-900 rounded-xl font-bold hover:bg-brand-primary/90 transition-all"
                     >
-                        Accept & Find Music
+                        {AXES.every(axis => mergedState[axis] === aiSuggestion.suggested_state[axis]) ? 'Accept & Find Music' : 'Use My Mix & Find Music'}
                     </button>
                     <button 
                        onClick={() => generatePlaylist(manualState)}
@@ -1283,6 +5869,12 @@ const App = () => {
                         Keep My Settings
                     </button>
                 </div>
+                <button
+                   onClick={() => choosePlaylistFile(mergedState, aiSuggestion)}
+                   className="w-full mt-3 text-xs text-slate-400 hover:text-white transition-colors"
+                >
+                    or build the journey from your own playlist (M3U, CSV, text)
+                </button>
             </div>
         )}
 
@@ -1291,15 +5883,51 @@ const App = () => {
           <div className="w-full max-w-5xl animate-fade-in pb-20">
             <div className="flex justify-between items-end mb-8 px-2">
               <div>
-                <h2 className="text-4xl font-display font-bold text-white">Your Healing Journey</h2>
+                <h2 className="text-4xl font-display font-bold text-white">{activeClient ? `${activeClient.name}'s Journey` : 'Your Healing Journey'}</h2>
                 <div className="h-1 w-20 bg-brand-primary mt-2 rounded-full shadow-[0_0_10px_rgba(45,212,191,0.8)]" />
               </div>
-              <button 
-                 onClick={() => { setView("INPUT"); setInputText(""); setAudioBlob(null); setAiSuggestion(null); setSelectedGenres([]); setExcludedGenres([]); setPlaylistResult(null); }}
-                 className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold"
-               >
-                 Start Over
-               </button>
+              <div className="flex gap-6">
+                {activeSession && (
+                  <button
+                     onClick={saveToJournal}
+                     title={journalFile ? `Adds this session to ${journalFile.name} and downloads it` : "Downloads this session as a markdown journal entry"}
+                     className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold"
+                   >
+                     {savedToJournalId === activeSession.id ? 'Saved ✓' : 'Save to Journal'}
+                   </button>
+                )}
+                {activeSession && <ExportMenu onExport={format => exportJourney(activeSession, format)} />}
+                {activeSession && (
+                  <button
+                     onClick={() => setView("REPORT")}
+                     title="A printable report of this session, for print-to-PDF or as an HTML file"
+                     className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold"
+                   >
+                     Report
+                   </button>
+                )}
+                {CAN_SHARE_LINKS && (
+                  <button
+                     onClick={shareJourney}
+                     title="Copies a read-only link to this journey. Everything is in the link itself; nothing is uploaded."
+                     className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold"
+                   >
+                     {sharedPlaylist === playlistResult ? 'Link Copied ✓' : 'Share'}
+                   </button>
+                )}
+                <button 
+                   onClick={() => openSessionsView("HISTORY")}
+                   className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold"
+                 >
+                   History
+                 </button>
+                <button 
+                   onClick={startOver}
+                   className="text-slate-400 hover:text-white transition-colors text-sm uppercase tracking-widest font-bold"
+                 >
+                   Start Over
+                 </button>
+              </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
@@ -1308,10 +5936,11 @@ const App = () => {
                 
                 {/* Radar Chart */}
                 <div className="glass-panel rounded-2xl p-6">
-                  <div className="mb-4">
+                  <div className="mb-4 flex justify-between items-center gap-2">
                     <span className="text-xs font-bold text-brand-accent uppercase tracking-wider">Final Settings</span>
+                    <span className="text-[10px] text-slate-400 truncate">{goal.emoji} {goal.label}</span>
                   </div>
-                  <AxisRadarChart current={manualState} target={HEALTHY_TARGET} />
+                  <AxisRadarChart current={manualState} target={goal.target} />
                 </div>
                 
                 {/* Journey Graph */}
@@ -1323,8 +5952,10 @@ const App = () => {
                   <JourneyGraph 
                     songs={playlistResult.songs}
                     initialState={manualState}
-                    targetState={HEALTHY_TARGET}
+                    targetState={goal.target}
                     activeAxis={activeGraphAxis as Exclude<keyof AxisState, 'summary'>}
+                    progressSec={player.current !== null ? journeyPositionSec(playlistResult.songs, player.current, player.fraction) : null}
+                    checkIns={checkIns}
                   />
                   <p className="text-[10px] text-slate-500 mt-2 text-center">
                     Each point shows how this axis shifts through your playlist
@@ -1350,9 +5981,27 @@ const App = () => {
                 {/* ISO Explanation */}
                 <ISOExplanation 
                     initialState={manualState}
+                    target={goal.target}
+                    goalLabel={goal.label}
                     journeyNarrative={playlistResult.journey_narrative}
                     isoInsight={playlistResult.iso_insight}
                     totalShift={playlistResult.total_shift}
+                    songCount={playlistResult.songs.length}
+                    totalSec={totalSeconds(playlistResult.songs)}
+                />
+
+                {isoReport && <IsoComplianceBadge report={isoReport} />}
+
+                <input type="file" ref={playbackFileInputRef} onChange={handlePlaybackFiles} accept={PLAYBACK_FILE_ACCEPT} multiple className="hidden" />
+                <JourneyPlayer
+                    songs={playlistResult.songs}
+                    sources={playbackSources}
+                    player={player}
+                    crossfadeSec={crossfadeSec}
+                    onCrossfadeChange={setCrossfadeSec}
+                    onChooseFiles={() => playbackFileInputRef.current?.click()}
+                    guided={guidedMode}
+                    onGuidedChange={setGuidedMode}
                 />
 
                 {/* Color Timeline */}
@@ -1361,11 +6010,13 @@ const App = () => {
                     {playlistResult.songs.map((song, i) => (
                       <div 
                         key={i} 
-                        className="flex-1 transition-all hover:flex-[1.5] cursor-pointer relative group"
-                        style={{ backgroundColor: song.color_hex }}
+                        className={`transition-all hover:brightness-125 cursor-pointer relative group ${player.current !== null && player.current !== i ? 'opacity-40' : ''}`}
+                        style={{ backgroundColor: song.color_hex, flexGrow: songSeconds(song) }}
+                        onClick={() => playbackSources[i] && player.play(i)}
                       >
+                        {player.current === i && <div className="absolute inset-y-0 left-0 bg-white/50" style={{ width: `${player.fraction * 100}%` }} />}
                         <div className="absolute -top-8 left-1/2 -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity bg-slate-900 border border-white/10 px-2 py-1 rounded text-[10px] whitespace-nowrap z-20">
-                          {song.title}
+                          {song.title} · {formatDuration(songSeconds(song))}
                         </div>
                       </div>
                     ))}
@@ -1375,16 +6026,50 @@ const App = () => {
                     <span className="tracking-widest">→ JOURNEY →</span>
                     <span>Target</span>
                   </div>
+                  <JourneyLengthSummary songs={playlistResult.songs} length={journeyLength} />
                 </div>
 
                 {playlistResult.songs.map((song, idx) => (
-                  <SongCard key={idx} song={song} index={idx} />
+                  <React.Fragment key={idx}>
+                    <SongCard
+                      song={song}
+                      index={idx}
+                      songCount={playlistResult.songs.length}
+                      elapsedSec={totalSeconds(playlistResult.songs.slice(0, idx + 1))}
+                      onFeedback={(feedback) => handleSongFeedback(idx, feedback)}
+                      onReplan={() => replanFrom(idx)}
+                      onPlay={playbackSources[idx] ? () => player.play(idx) : undefined}
+                      isCurrent={player.current === idx}
+                      onCheckIn={guidedMode && idx === nextCheckIn && pendingCheckIn === null ? () => setPendingCheckIn(idx) : undefined}
+                    />
+                    {pendingCheckIn === idx && (
+                      <CheckInCard
+                        song={song}
+                        index={idx}
+                        isLast={idx === playlistResult.songs.length - 1}
+                        onSubmit={(state) => submitCheckIn(idx, state)}
+                        onSkip={() => { setPendingCheckIn(null); setSkippedCheckIns(idx); }}
+                      />
+                    )}
+                  </React.Fragment>
                 ))}
+
+                {activeSession && (
+                  <React.Fragment key={activeSession.id}>
+                    <OutcomeCard
+                      lastSong={playlistResult.songs[playlistResult.songs.length - 1]}
+                      outcome={activeSession.outcome}
+                      onSubmit={(state) => recordOutcome(state)}
+                    />
+                    {practitionerMode && <ClinicalNotes notes={activeSession.clinicalNotes ?? ''} onSave={saveClinicalNotes} />}
+                  </React.Fragment>
+                )}
+
+                {droppedTracks && <DroppedTracksList tracks={droppedTracks} source={activeSession?.importedFrom} />}
                 
                 <div className="mt-12 pt-8 border-t border-white/10 text-center">
                    <p className="text-xs text-slate-500 max-w-lg mx-auto leading-relaxed">
-                      DISCLAIMER: TherapyTune uses the ISO Principle, an evidence-based approach in music therapy. 
-                      This is a music discovery tool, not a replacement for professional mental health care.
+                      DISCLAIMER: {DISCLAIMER}
                    </p>
                 </div>
               </div>
@@ -1397,4 +6082,3 @@ const App = () => {
 };
 
 const root = createRoot(document.getElementById("root")!);
-root.render(<App />);
\ No newline at end of file
@@ -0,0 +1,320 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import type { AnalyzeApiRequest, CatalogTrack, ClientAudioMetrics, FeedbackHistory, ImportedTrack, JournalEntry, OutcomeExample, PlaceTracksApiRequest, PlaylistApiRequest, Song } from "../types";
+import { ISO_START_TOLERANCE } from "../constants";
+
+// Prompts and response schemas live here so that neither they nor the API key
+// ship in the client bundle.
+
+const AXIS_STATE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { energy: { type: Type.NUMBER }, reality: { type: Type.NUMBER }, temporal: { type: Type.NUMBER }, repetition: { type: Type.NUMBER }, hedonic: { type: Type.NUMBER } },
+  required: ["energy", "reality", "temporal", "repetition", "hedonic"]
+};
+
+const AXIS_INSIGHT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { confidence: { type: Type.NUMBER }, rationale: { type: Type.STRING } },
+  required: ["confidence", "rationale"]
+};
+
+const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    suggested_state: {
+      type: Type.OBJECT,
+      properties: {
+         energy: { type: Type.NUMBER },
+         reality: { type: Type.NUMBER },
+         temporal: { type: Type.NUMBER },
+         repetition: { type: Type.NUMBER },
+         hedonic: { type: Type.NUMBER },
+         summary: { type: Type.STRING }
+      },
+      required: ["energy", "reality", "temporal", "repetition", "hedonic"]
+    },
+    reasoning: { type: Type.STRING },
+    axis_insights: {
+      type: Type.OBJECT,
+      properties: { energy: AXIS_INSIGHT_SCHEMA, reality: AXIS_INSIGHT_SCHEMA, temporal: AXIS_INSIGHT_SCHEMA, repetition: AXIS_INSIGHT_SCHEMA, hedonic: AXIS_INSIGHT_SCHEMA },
+      required: ["energy", "reality", "temporal", "repetition", "hedonic"]
+    },
+    contributions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: { type: Type.STRING, enum: ["sliders", "voice", "journal"] },
+          weight: { type: Type.NUMBER },
+          axis_shifts: AXIS_STATE_SCHEMA,
+          note: { type: Type.STRING }
+        },
+        required: ["source", "weight", "axis_shifts", "note"]
+      }
+    },
+    entry_states: { type: Type.ARRAY, items: AXIS_STATE_SCHEMA },
+    voice_analysis: {
+       type: Type.OBJECT,
+       properties: {
+         pitch: { type: Type.STRING },
+         stability: { type: Type.STRING },
+         speed: { type: Type.STRING },
+         note: { type: Type.STRING }
+       }
+    }
+  },
+  required: ["suggested_state", "reasoning", "axis_insights", "contributions"]
+};
+
+const PLAYLIST_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    songs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          artist: { type: Type.STRING },
+          target_state: AXIS_STATE_SCHEMA,
+          therapeutic_note: { type: Type.STRING },
+          color_hex: { type: Type.STRING },
+          axis_shifts: AXIS_STATE_SCHEMA,
+          duration_sec: { type: Type.INTEGER }
+        },
+        required: ["title", "artist", "target_state", "therapeutic_note", "color_hex", "duration_sec"]
+      }
+    },
+    journey_narrative: { type: Type.STRING },
+    iso_insight: { type: Type.STRING },
+    total_shift: AXIS_STATE_SCHEMA
+  },
+  required: ["songs", "journey_narrative", "iso_insight"]
+};
+
+const TRACK_PLACEMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    placements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          known: { type: Type.BOOLEAN },
+          state: AXIS_STATE_SCHEMA,
+          duration_sec: { type: Type.INTEGER },
+          note: { type: Type.STRING }
+        },
+        required: ["known", "state", "note"]
+      }
+    }
+  },
+  required: ["placements"]
+};
+
+const buildContinuationSection = (previousSongs: Song[] | undefined) => {
+  if (!previousSongs?.length) return '';
+  const played = previousSongs.map((song, i) => `${i + 1}. "${song.title}" by ${song.artist} at ${JSON.stringify(song.target_state)}`).join('\n    ');
+  return `
+    ## Continuing a Journey
+    The listener has already heard these songs and is re-planning the rest:
+    ${played}
+    The coordinates above under "Current State Analysis" are the adjusted waypoint to continue from.
+    Do NOT repeat any of these songs.
+  `;
+};
+
+const buildFeedbackSection = (history: FeedbackHistory | undefined) => {
+  if (!history || (history.accepted.length === 0 && history.rejected.length === 0)) return '';
+  return `
+    ## Listener Feedback From Earlier Sessions
+    ${history.accepted.length > 0 ? `Songs they loved (similar picks are welcome): ${history.accepted.join('; ')}` : ''}
+    ${history.rejected.length > 0 ? `Songs that felt wrong (avoid these and close matches): ${history.rejected.join('; ')}` : ''}
+  `;
+};
+
+const buildCatalogSection = (catalog: CatalogTrack[] | undefined) => {
+  if (!catalog?.length) return '';
+  const tracks = catalog.map(t => `- "${t.title}" by ${t.artist} (${t.genre}, ${t.duration_sec}s)${t.state ? ` at ${JSON.stringify(t.state)}` : ''}`).join('\n    ');
+  return `
+    ## Music Library
+    Pick EVERY song from this list of tracks the listener owns, spelled exactly as listed.
+    Coordinates, where given, are where the track sits on the axes; use them.
+    ${tracks}
+  `;
+};
+
+const buildOutcomeSection = (examples: OutcomeExample[] | undefined) => {
+  if (!examples?.length) return '';
+  const journeys = examples.map((e, i) =>
+    `${i + 1}. From ${JSON.stringify(e.startState)}, genres: ${e.genres.join(', ') || 'any'}, pacing: ${e.shape}; ended ${e.improvement} closer to a healthy baseline.\n       Songs: ${e.songs.join('; ')}`
+  ).join('\n    ');
+  return `
+    ## Journeys That Helped This Listener
+    Their check-ins after earlier sessions show these journeys moved them the most. Borrow what fits this one (genres, pacing, kinds of songs) rather than copying them:
+    ${journeys}
+  `;
+};
+
+export const buildPlaylistPrompt = ({ startState, target, goalLabel, genres, excludedGenres, songCount, maxStep, targetMinutes, previousSongs, feedbackHistory, catalog, outcomeExamples }: PlaylistApiRequest) => {
+  const genreStr = genres.length > 0 ? `Preferred genres: ${genres.join(', ')}. ` : 'No preference';
+  const excludeStr = excludedGenres.length > 0 ? `NEVER include: ${excludedGenres.join(', ')}. ` : '';
+  const lengthStr = targetMinutes
+    ? `The journey should last about ${targetMinutes} minutes in total; pick ${songCount} songs whose lengths add up to roughly that.`
+    : `The journey has ${songCount} songs.`;
+
+  return `
+    You are a music therapy AI using the ISO Principle (Isoprinciple).
+
+    ## Current State Analysis
+    User's emotional coordinates: ${JSON.stringify(startState)}
+    Target (the user's goal, "${goalLabel}"): ${JSON.stringify(target)}
+
+    ## ISO Principle Rules
+    The ISO Principle states: "Meet the client where they are, then gradually guide them."
+    - Song 1: MUST match current state (±${ISO_START_TOLERANCE} tolerance)
+    - Each song shifts MAX ${maxStep} per axis toward target
+    - ${lengthStr} Spread the movement evenly so the last song lands on the target
+    - Never jump directly to opposite emotion
+    - The journey matters more than the destination
+
+    ## Genre Preferences
+    ${genreStr}
+    ${excludeStr}
+    ${buildCatalogSection(catalog)}${buildContinuationSection(previousSongs)}${buildFeedbackSection(feedbackHistory)}${buildOutcomeSection(outcomeExamples)}
+    ## Output Requirements
+    For each of ${songCount} songs, provide:
+    1. title, artist (REAL songs only${catalog?.length ? ', from the Music Library' : ''})
+    2. target_state (exact coordinates this song represents)
+    3. therapeutic_note (1 sentence: why this song at this position)
+    4. color_hex (emotion color)
+    5. axis_shifts (how much each axis changed from previous song)
+    6. duration_sec (the track's real length in seconds)
+
+    Also provide:
+    - journey_narrative: 2-3 sentences explaining the overall emotional arc
+    - iso_insight: A surprising fact about why starting sad/intense helps (if applicable)
+    - total_shift: Summary of movement on each axis across all ${songCount} songs
+
+    IMPORTANT: 
+    - If user selected K-Pop/J-Pop, include those languages.
+    - Do NOT start with upbeat music for depressed/low energy states.
+  `;
+};
+
+const describeImportedTrack = (track: ImportedTrack, i: number) =>
+  `${i + 1}. "${track.title}"${track.artist ? ` by ${track.artist}` : ''}${track.duration_sec ? ` (${track.duration_sec}s)` : ''}`;
+
+export const buildTrackPlacementPrompt = ({ tracks }: PlaceTracksApiRequest) => `
+    You are a music therapy AI placing songs on five emotional axes, each from -1 to 1:
+    - energy: exhausted (-1) to wired (1)
+    - reality: foggy / dissociated (-1) to on edge / hyper-alert (1)
+    - temporal: past-focused / nostalgic (-1) to future-anxious (1)
+    - repetition: bored / understimulated (-1) to obsessive / looping (1)
+    - hedonic: numb (-1) to overwhelmed (1)
+
+    These tracks come from the listener's own playlist:
+    ${tracks.map(describeImportedTrack).join('\n    ')}
+
+    ## Output Requirements
+    Return exactly ${tracks.length} placements, in the same order as the list above. For each:
+    1. known: false if you can't identify the recording with confidence; do NOT guess
+    2. state: where the song sits on the five axes (any values when known is false)
+    3. duration_sec: the track's real length in seconds, if you know it
+    4. note: 1 short sentence on the song's feel, or why it couldn't be placed
+  `;
+
+const round = (value: number | null, digits = 2) => value === null ? null : Number(value.toFixed(digits));
+
+// Measured on the client over 40 ms frames; null means too little voiced speech to tell.
+const buildVoiceFeatureSection = (metrics: ClientAudioMetrics | null) => {
+  if (!metrics) return '';
+  const features = {
+    duration_sec: round(metrics.durationSec, 1),
+    rms: round(metrics.rms, 3),
+    zcr: round(metrics.zcr, 3),
+    f0_mean_hz: metrics.f0MeanHz,
+    f0_range_hz: metrics.f0RangeHz,
+    f0_contour_hz: metrics.f0Contour,
+    f0_trend: metrics.f0Trend,
+    jitter_pct: round(metrics.jitterPct),
+    shimmer_pct: round(metrics.shimmerPct),
+    pause_ratio: round(metrics.pauseRatio),
+    speaking_rate_syllables_per_sec: round(metrics.speakingRate, 1)
+  };
+  return `
+         Measured voice features (computed on-device, frame-based): ${JSON.stringify(features)}
+         Typical conversational speech runs at 3-5 syllables per second with a pause ratio around 0.2-0.35.
+         A narrow F0 range and slow rate often go with low energy; high jitter/shimmer with tension or fatigue.
+         Use these numbers alongside what you hear, and fill 'voice_analysis' with pitch, stability and speed in plain words.`;
+};
+
+// Sliders, voice and journal are analysed together so no input is dropped;
+// the model reports how much each one moved the suggestion.
+const buildJournalEntriesSection = (entries: JournalEntry[]) => `
+         They selected ${entries.length} entries from their journal, newest first:
+         ${entries.map((entry, i) => `Entry ${i + 1}${entry.date ? ` (${entry.date})` : ''}: "${entry.text}"`).join('\n         ')}
+         Also return 'entry_states': exactly ${entries.length} coordinate objects, one per entry in the order above, estimating the writer's state at the time of that entry.
+         Weigh the newest entries most when suggesting the current state.`;
+
+export const buildAnalysisContents = ({ state, journalText, journalEntries, audio }: AnalyzeApiRequest) => {
+  const sources = ['"sliders" (the coordinates the user set)'];
+  if (audio) sources.push('"voice" (the attached recording)');
+  if (journalText || journalEntries?.length) sources.push('"journal" (the text below)');
+
+  const text = `The user set their state to: ${JSON.stringify(state)}.${journalText ? `
+         They provided this context (which might be a short text or a journal entry): "${journalText}".` : ''}${journalEntries?.length ? buildJournalEntriesSection(journalEntries) : ''}${audio ? `
+         A voice recording is attached.${buildVoiceFeatureSection(audio.metrics)}` : ''}
+         Combine these sources into one suggested_state: ${sources.join(', ')}.
+         Do not simply override the sliders unless the other sources strongly suggest otherwise (e.g., detected tremors, slow speed, clear statements).
+         Return 'suggested_state' and 'reasoning'.
+         For every axis, add 'axis_insights' with a confidence from 0 to 1 in the suggested value and a one-sentence rationale.
+         The user can accept or reject each axis separately, so keep each rationale specific to that axis.
+         Also return one 'contributions' entry per source above with:
+         - weight: how much you relied on it (weights sum to 1)
+         - axis_shifts: how far that source moved each axis away from the slider values (0 for sliders; the shifts of all sources add up to suggested_state minus the slider values)
+         - note: one short sentence, e.g. "Your voice pulled energy down by 0.3".`;
+
+  return [{
+    role: "user",
+    parts: audio
+      ? [{ text }, { inlineData: { mimeType: audio.mimeType, data: audio.data } }]
+      : [{ text }]
+  }];
+};
+
+export const createGeminiService = (apiKey: string, model: string) => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    model,
+
+    async analyzeState(request: AnalyzeApiRequest): Promise<string> {
+      const resp = await ai.models.generateContent({
+        model,
+        contents: buildAnalysisContents(request),
+        config: { responseMimeType: "application/json", responseSchema: ANALYSIS_SCHEMA }
+      });
+      return resp.text ?? "";
+    },
+
+    async generatePlaylist(request: PlaylistApiRequest): Promise<string> {
+      const resp = await ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts: [{ text: buildPlaylistPrompt(request) }] }],
+        config: { responseMimeType: "application/json", responseSchema: PLAYLIST_SCHEMA }
+      });
+      return resp.text ?? "";
+    },
+
+    async placeTracks(request: PlaceTracksApiRequest): Promise<string> {
+      const resp = await ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts: [{ text: buildTrackPlacementPrompt(request) }] }],
+        config: { responseMimeType: "application/json", responseSchema: TRACK_PLACEMENT_SCHEMA }
+      });
+      return resp.text ?? "";
+    }
+  };
+};
+
+export type GeminiService = ReturnType<typeof createGeminiService>;
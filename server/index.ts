@@ -0,0 +1,213 @@
+import http from "node:http";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AnalyzeApiRequest, ApiErrorResponse, GenerateApiResponse, PlaceTracksApiRequest, PlaylistApiRequest } from "../types";
+import { createGeminiService } from "./gemini";
+import { createRateLimiter } from "./rateLimit";
+
+// Small API server: holds the Gemini key, owns the prompts and serves the built app from dist/.
+
+const PORT = Number(process.env.PORT) || 8787;
+const MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+const MAX_BODY_BYTES = 15 * 1024 * 1024; // Voice recordings arrive base64-encoded
+const MAX_DRAIN_BYTES = 1024 * 1024; // Read past the limit only long enough for the 413 to go out
+const TRUST_PROXY = process.env.TRUST_PROXY === "1";
+const MAX_SONGS = 30;
+const MAX_IMPORTED_TRACKS = 100;
+const MAX_CATALOG_TRACKS = 300; // The app sends the tracks nearest the planned path
+const MAX_OUTCOME_EXAMPLES = 5;
+const MAX_JOURNAL_CHARS = 20_000; // The app splits longer journals across several requests
+const MAX_JOURNAL_ENTRIES = 40;
+const AUDIO_MIME_TYPE = /^audio\/[\w.+-]+$/;
+
+const DIST_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../dist");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+};
+
+const gemini = process.env.GEMINI_API_KEY ? createGeminiService(process.env.GEMINI_API_KEY, MODEL) : null;
+
+const rateLimit = createRateLimiter({
+  windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+  max: Number(process.env.RATE_LIMIT_MAX) || 10,
+});
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: GenerateApiResponse | ApiErrorResponse, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const clientKey = (req: http.IncomingMessage) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (TRUST_PROXY && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+const readJsonBody = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Drain a little instead of destroying the socket at once, so the 413
+        // response still reaches the client; give up on bodies that keep coming.
+        req.removeAllListeners("data");
+        let drained = 0;
+        req.on("data", (rest: Buffer) => {
+          drained += rest.length;
+          if (drained > MAX_DRAIN_BYTES) req.destroy();
+        });
+        reject(new HttpError(413, "Request body is too large."));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, "Request body must be valid JSON."));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const isAxisState = (value: unknown) =>
+  typeof value === "object" && value !== null &&
+  ["energy", "reality", "temporal", "repetition", "hedonic"].every(axis => typeof (value as Record<string, unknown>)[axis] === "number");
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string");
+
+const parseAnalyzeRequest = (body: unknown): AnalyzeApiRequest => {
+  const req = body as AnalyzeApiRequest;
+  if (!isAxisState(req?.state)) throw new HttpError(400, "\"state\" must contain all five axes.");
+  if (req.audio && typeof req.audio.data !== "string") throw new HttpError(400, "\"audio.data\" must be a base64 string.");
+  if (req.audio && !(typeof req.audio.mimeType === "string" && AUDIO_MIME_TYPE.test(req.audio.mimeType))) throw new HttpError(400, "\"audio.mimeType\" must be an audio MIME type.");
+  if (req.audio?.metrics && (typeof req.audio.metrics.rms !== "number" || !Array.isArray(req.audio.metrics.f0Contour))) {
+    throw new HttpError(400, "\"audio.metrics\" must contain the measured voice features.");
+  }
+  if (req.journalText !== undefined && typeof req.journalText !== "string") throw new HttpError(400, "\"journalText\" must be a string.");
+  if (req.journalEntries !== undefined) {
+    if (!Array.isArray(req.journalEntries) || req.journalEntries.some(e => typeof e?.text !== "string")) throw new HttpError(400, "\"journalEntries\" must be a list of entries with text.");
+    if (req.journalEntries.length > MAX_JOURNAL_ENTRIES) throw new HttpError(400, `Send at most ${MAX_JOURNAL_ENTRIES} journal entries per request.`);
+  }
+  const journalChars = (req.journalText?.length ?? 0) + (req.journalEntries ?? []).reduce((sum, e) => sum + e.text.length, 0);
+  if (journalChars > MAX_JOURNAL_CHARS) throw new HttpError(413, `Journal text is limited to ${MAX_JOURNAL_CHARS} characters per request.`);
+  return req;
+};
+
+const parsePlaylistRequest = (body: unknown): PlaylistApiRequest => {
+  const req = body as PlaylistApiRequest;
+  if (!isAxisState(req?.startState) || !isAxisState(req?.target)) throw new HttpError(400, "\"startState\" and \"target\" must contain all five axes.");
+  if (typeof req.goalLabel !== "string") throw new HttpError(400, "\"goalLabel\" must be a string.");
+  if (!isStringArray(req.genres) || !isStringArray(req.excludedGenres)) throw new HttpError(400, "\"genres\" and \"excludedGenres\" must be lists of strings.");
+  if (!Number.isInteger(req.songCount) || req.songCount < 1 || req.songCount > MAX_SONGS) throw new HttpError(400, `"songCount" must be between 1 and ${MAX_SONGS}.`);
+  if (typeof req.maxStep !== "number" || req.maxStep <= 0 || req.maxStep > 1) throw new HttpError(400, "\"maxStep\" must be a number between 0 and 1.");
+  if (req.targetMinutes !== undefined && (typeof req.targetMinutes !== "number" || req.targetMinutes <= 0)) throw new HttpError(400, "\"targetMinutes\" must be a positive number.");
+  if (req.previousSongs !== undefined && (!Array.isArray(req.previousSongs) || req.previousSongs.some(s => typeof s?.title !== "string" || typeof s.artist !== "string" || !isAxisState(s.target_state)))) {
+    throw new HttpError(400, "\"previousSongs\" must be a list of songs with a title, an artist and a target state.");
+  }
+  if (req.catalog !== undefined) {
+    if (!Array.isArray(req.catalog) || req.catalog.some(t => typeof t?.title !== "string" || typeof t.artist !== "string")) throw new HttpError(400, "\"catalog\" must be a list of tracks with a title and an artist.");
+    if (req.catalog.length > MAX_CATALOG_TRACKS) throw new HttpError(400, `Send at most ${MAX_CATALOG_TRACKS} catalog tracks per request.`);
+  }
+  if (req.outcomeExamples !== undefined) {
+    if (!Array.isArray(req.outcomeExamples) || req.outcomeExamples.some(e => !isAxisState(e?.startState) || !isStringArray(e.genres) || !isStringArray(e.songs) || typeof e.shape !== "string" || typeof e.improvement !== "number")) {
+      throw new HttpError(400, "\"outcomeExamples\" must be a list of past journeys with a start state, genres, shape, songs and improvement.");
+    }
+    if (req.outcomeExamples.length > MAX_OUTCOME_EXAMPLES) throw new HttpError(400, `Send at most ${MAX_OUTCOME_EXAMPLES} outcome examples per request.`);
+  }
+  return req;
+};
+
+const parsePlaceTracksRequest = (body: unknown): PlaceTracksApiRequest => {
+  const req = body as PlaceTracksApiRequest;
+  if (!Array.isArray(req?.tracks) || req.tracks.length === 0) throw new HttpError(400, "\"tracks\" must be a non-empty array.");
+  if (req.tracks.length > MAX_IMPORTED_TRACKS) throw new HttpError(400, `Send at most ${MAX_IMPORTED_TRACKS} tracks per request.`);
+  if (req.tracks.some(t => typeof t?.title !== "string" || typeof t.artist !== "string")) throw new HttpError(400, "Every track needs a \"title\" and an \"artist\" string.");
+  return req;
+};
+
+const serveStatic = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+  } catch {
+    res.writeHead(400, { "Content-Type": "text/plain" }).end("Malformed URL.");
+    return;
+  }
+  let filePath = path.join(DIST_DIR, urlPath);
+  const relative = path.relative(DIST_DIR, filePath);
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    res.writeHead(403).end();
+    return;
+  }
+  if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+    filePath = path.join(DIST_DIR, "index.html"); // Single-page app fallback
+  }
+  if (!fs.existsSync(filePath)) {
+    res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found. Run `npm run build` to serve the app from this server.");
+    return;
+  }
+  res.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(filePath)] ?? "application/octet-stream" });
+  fs.createReadStream(filePath).pipe(res);
+};
+
+const handleApi = async (req: http.IncomingMessage, res: http.ServerResponse, route: string) => {
+  if (req.method !== "POST") throw new HttpError(405, "Use POST.");
+  if (route !== "/api/analyze" && route !== "/api/playlist" && route !== "/api/place-tracks") throw new HttpError(404, "Unknown endpoint.");
+
+  const limit = rateLimit(clientKey(req));
+  if (!limit.allowed) {
+    sendJson(res, 429, { error: "Too many requests. Please wait a moment." }, { "Retry-After": String(limit.retryAfterSec) });
+    return;
+  }
+  if (!gemini) throw new HttpError(503, "The server has no GEMINI_API_KEY configured.");
+
+  const body = await readJsonBody(req);
+  const text = route === "/api/analyze"
+    ? await gemini.analyzeState(parseAnalyzeRequest(body))
+    : route === "/api/playlist"
+      ? await gemini.generatePlaylist(parsePlaylistRequest(body))
+      : await gemini.placeTracks(parsePlaceTracksRequest(body));
+  sendJson(res, 200, { text });
+};
+
+const server = http.createServer(async (req, res) => {
+  const route = new URL(req.url ?? "/", "http://localhost").pathname;
+  if (!route.startsWith("/api/")) {
+    serveStatic(req, res);
+    return;
+  }
+  try {
+    await handleApi(req, res, route);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message });
+    } else {
+      console.error(e);
+      sendJson(res, 502, { error: "The AI service request failed." });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`TherapyTune server listening on http://localhost:${PORT} (model: ${MODEL}${gemini ? "" : ", no API key"})`);
+});
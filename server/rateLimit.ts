@@ -0,0 +1,31 @@
+// Fixed-window request limiter keyed by client address.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSec: number;
+}
+
+export const createRateLimiter = ({ windowMs, max }: { windowMs: number; max: number }) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const prune = (now: number) => {
+    windows.forEach((w, key) => {
+      if (now - w.start >= windowMs) windows.delete(key);
+    });
+  };
+
+  return (key: string, now = Date.now()): RateLimitResult => {
+    if (windows.size > 10_000) prune(now);
+
+    const current = windows.get(key);
+    if (!current || now - current.start >= windowMs) {
+      windows.set(key, { start: now, count: 1 });
+      return { allowed: true, retryAfterSec: 0 };
+    }
+    if (current.count >= max) {
+      return { allowed: false, retryAfterSec: Math.ceil((current.start + windowMs - now) / 1000) };
+    }
+    current.count++;
+    return { allowed: true, retryAfterSec: 0 };
+  };
+};
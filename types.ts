@@ -0,0 +1,192 @@
+// Types shared by the React app and the API server.
+
+export interface AxisState {
+  energy: number;
+  reality: number;
+  temporal: number;
+  repetition: number;
+  hedonic: number;
+  summary?: string;
+}
+
+export type AxisKey = Exclude<keyof AxisState, 'summary'>;
+
+export interface VoiceMetrics {
+  pitch: string;
+  stability: string;
+  speed: string;
+  note: string;
+}
+
+export type AnalysisSource = "sliders" | "voice" | "journal";
+
+// How one input moved the suggestion, e.g. "voice pulled energy down by 0.3".
+export interface ModalityContribution {
+  source: AnalysisSource;
+  weight: number; // Share of the suggestion this source accounts for; weights sum to 1
+  axis_shifts: AxisState;
+  note: string;
+}
+
+export interface AxisInsight {
+  confidence: number; // 0..1
+  rationale: string;
+}
+
+// One dated entry from an imported journal (markdown headings or a Day One export).
+export interface JournalEntry {
+  id: string;
+  date: string | null; // YYYY-MM-DD
+  title: string;
+  text: string;
+}
+
+export interface JournalTrendPoint {
+  entryId: string;
+  date: string | null;
+  title: string;
+  state: AxisState;
+}
+
+export interface AiSuggestion {
+  suggested_state: AxisState;
+  reasoning: string;
+  axis_insights?: Partial<Record<AxisKey, AxisInsight>>;
+  voice_analysis?: VoiceMetrics;
+  contributions?: ModalityContribution[];
+  // One estimated state per imported journal entry, oldest first
+  entry_trend?: JournalTrendPoint[];
+  // Measured on-device from the recording, not by the model
+  voice_features?: ClientAudioMetrics;
+}
+
+export type SongFeedback = "heavy" | "meh" | "good";
+
+// How a suggested song relates to the listener's music library: found in it,
+// replaced by the closest track from it, or not checked against one.
+export type CatalogMatch = "verified" | "substituted" | "unverified";
+
+export interface Song {
+  title: string;
+  artist: string;
+  target_state: AxisState;
+  therapeutic_note: string;
+  color_hex: string;
+  axis_shifts: AxisState;
+  // Estimated track length, used for the running total against the requested journey length
+  duration_sec?: number;
+  feedback?: SongFeedback;
+  catalog_match?: CatalogMatch;
+  replaced?: string; // "Title — Artist" the model suggested, when catalog_match is "substituted"
+}
+
+export interface PlaylistResponse {
+  songs: Song[];
+  journey_narrative: string;
+  iso_insight: string;
+  total_shift: AxisState;
+}
+
+export type PitchContour = "rising" | "falling" | "flat" | "varied";
+
+// Voice features measured in the browser over short frames. Pitch-based
+// fields are null when the clip has too little voiced speech to measure.
+export interface ClientAudioMetrics {
+  rms: number;
+  zcr: number; // Zero crossings per sample at 16 kHz
+  durationSec: number;
+  f0MeanHz: number | null;
+  f0RangeHz: number | null; // 10th to 90th percentile, so single octave errors don't dominate
+  f0Contour: number[]; // Mean F0 per tenth of the clip, skipping unvoiced stretches
+  f0Trend: PitchContour | null;
+  jitterPct: number | null; // Frame-to-frame variation of the pitch period
+  shimmerPct: number | null; // Frame-to-frame variation of voiced amplitude
+  pauseRatio: number; // Share of the clip (after trimming) that is silence
+  speakingRate: number; // Syllable-like energy peaks per second, pauses included
+}
+
+// A track read from an uploaded playlist file, before it is placed on the axes.
+export interface ImportedTrack {
+  title: string;
+  artist: string; // Empty when the file only names the track
+  duration_sec?: number;
+}
+
+// Audio features as streaming services export them: 0..1, tempo in BPM.
+export interface CatalogAudioFeatures {
+  energy?: number;
+  valence?: number;
+  tempo?: number;
+  danceability?: number;
+  acousticness?: number;
+}
+
+// One track from the listener's local music library.
+export interface CatalogTrack {
+  title: string;
+  artist: string;
+  genre: string; // A GENRE_OPTIONS id when it maps onto one, otherwise the library's own label
+  duration_sec: number;
+  state?: AxisState; // From the library, or estimated from its audio features
+  features?: CatalogAudioFeatures;
+}
+
+// Tracks the user rated in earlier sessions, as "Title — Artist".
+export interface FeedbackHistory {
+  accepted: string[];
+  rejected: string[];
+}
+
+// An earlier journey whose post-session check-in showed a large move toward a healthy baseline.
+export interface OutcomeExample {
+  startState: AxisState;
+  genres: string[];
+  shape: string; // How the movement was paced, e.g. "slow build: most of the movement comes late"
+  songs: string[]; // "Title — Artist", in order
+  improvement: number; // How much closer to the healthy baseline the listener ended up
+}
+
+export interface PlaylistRequest {
+  startState: AxisState;
+  target: AxisState;
+  goalLabel: string;
+  genres: string[];
+  excludedGenres: string[];
+  songCount: number;
+  // Largest per-axis change allowed between consecutive songs, derived from the start–target distance
+  maxStep: number;
+  // Set for time-based journeys ("a 40-minute journey")
+  targetMinutes?: number;
+  // Songs already played when re-planning the rest of a journey
+  previousSongs?: Song[];
+  feedbackHistory?: FeedbackHistory;
+  // When set, every song must come from this list
+  catalog?: CatalogTrack[];
+  outcomeExamples?: OutcomeExample[];
+}
+
+// --- API payloads ---
+
+export interface AnalyzeApiRequest {
+  state: AxisState;
+  journalText?: string;
+  // Separate entries; the response then carries one entry_states item per entry, in order
+  journalEntries?: JournalEntry[];
+  audio?: { data: string; mimeType: string; metrics: ClientAudioMetrics | null };
+}
+
+export type PlaylistApiRequest = PlaylistRequest;
+
+// The response carries one placement per track, in the same order.
+export interface PlaceTracksApiRequest {
+  tracks: ImportedTrack[];
+}
+
+// The server passes the model's raw JSON text through; the app validates it.
+export interface GenerateApiResponse {
+  text: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+}